@@ -50,9 +50,10 @@ export default function App() {
       /** Highlights the correct stroke (using <HanziWriter.QuizMistakeHighlighter />) after the provided number of incorrect attempts. Setting to `false` disables this. */
       showHintAfterMisses: 2,
       acceptBackwardsStrokes: enableBackwardsStrokes,
-      onComplete({ totalMistakes }) {
+      onComplete({ totalMistakes, mistakesByStroke, elapsedTime }) {
         console.log(
-          `Quiz complete! You made a total of ${totalMistakes} mistakes`
+          `Quiz complete! You made a total of ${totalMistakes} mistakes in ${elapsedTime}ms`,
+          mistakesByStroke
         );
       },
       onCorrectStroke() {
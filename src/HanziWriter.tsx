@@ -1,13 +1,11 @@
 import { StyleProp, StyleSheet, Text, View, ViewStyle } from 'react-native';
 import {
-  strokeMatches,
   Character,
-  parseCharData,
   Positioner,
-  UserStroke,
+  recognizeCharacter,
+  type Stroke,
 } from './hanzi-writer';
-import { useSyncExternalStoreWithSelector } from 'use-sync-external-store/with-selector';
-import type { Point, QuizOptions, CharacterJson } from './types';
+import type { Point, QuizSnapshot, QuizUserStroke } from './types';
 import {
   createContext,
   ReactNode,
@@ -27,32 +25,64 @@ import RNSvg, {
   SvgProps,
 } from 'react-native-svg';
 import LoadingIndicator from './components/LoadingIndicator';
-import simplify from './simplify';
-import { getPathString as getPathStringWorklet } from './geometry-worklet';
 import { StrokeAnimator } from './components/StrokeAnimator';
-import Animated, {
+import { StrokeGestureLayer } from './components/StrokeGestureLayer';
+import {
   Easing,
+  type SharedValue,
   useAnimatedProps,
   useSharedValue,
+  withSequence,
   withTiming,
 } from 'react-native-reanimated';
 import { scheduleOnRN } from 'react-native-worklets';
-import { usePromise } from './hooks/usePromise';
+import { getPathString } from './geometry';
+import { usePromise, type PromiseState } from './hooks/usePromise';
 import AnimatedPath from './components/AnimatedPath';
-import { Gesture, GestureDetector } from 'react-native-gesture-handler';
-import { generateId } from './utils';
+import { generateId, getPositionerTransform } from './utils';
+import { useStore } from './hooks/useStore';
+import { createStoreApi } from './store';
+import {
+  createQuizStore,
+  createQuizTimerStore,
+  getExamOptions,
+  getQuizSummary,
+  QuizEngine,
+  type QuizState,
+  type QuizTimerState,
+  type StartQuizParams,
+} from './quiz-engine';
+import {
+  CharacterCache,
+  defaultCharacterCache,
+  isInstanceLoaderId,
+} from './character-cache';
+import {
+  CACHE_SOURCE,
+  getLoadersId,
+  loadCharacterWithSource,
+  prefetchCharacters,
+  type CharDataLoaders,
+  type PrefetchOptions,
+} from './loader';
 
 export const HanziWriterContext = createContext<ReturnType<
   typeof useHanziWriter
 > | null>(null);
 
+/** Receives the load error (e.g. `CharacterNotFoundError`, `CharacterDataInvalidError`, `NetworkError`) and a function to retry loading */
+export type CharacterErrorRenderer = (params: {
+  error: Error;
+  retry: () => void;
+}) => ReactNode;
+
 interface HanziWriterProps {
   writer: ReturnType<typeof useHanziWriter>;
   children: ReactNode;
   /** What to display while the character is loading */
   loading?: React.ReactNode;
   /** What to display if there's an error */
-  error?: React.ReactNode;
+  error?: React.ReactNode | CharacterErrorRenderer;
   /** Container style */
   style?: StyleProp<ViewStyle>;
   userStrokeProps?: PathProps;
@@ -87,14 +117,7 @@ HanziWriter.Outline = HanziWriterOutline;
 HanziWriter.Character = HanziWriterCharacter;
 HanziWriter.QuizMistakeHighlighter = QuizMistakeHighlighter;
 HanziWriter.QuizStrokes = HanziWriterQuizStrokes;
-
-export async function defaultCharDataLoader(
-  char: string
-): Promise<CharacterJson> {
-  return fetch(
-    `https://cdn.jsdelivr.net/npm/hanzi-writer-data@2.0/${char}.json`
-  ).then((res) => res.json());
-}
+HanziWriter.InputStrokes = HanziWriterInputStrokes;
 
 export function QuizMistakeHighlighter({
   color = '#555',
@@ -105,11 +128,18 @@ export function QuizMistakeHighlighter({
   const animationPath = writer.characterClass?.strokes[quiz.index];
 
   const animationKey = useMemo((): string | null => {
+    // Hints requested with `quiz.revealStroke()`
+    const revealKey =
+      quiz.reveal?.strokeNum === quiz.index ? quiz.reveal.key : null;
+    // No hints in exams
+    if (getExamOptions(quiz.params)) {
+      return null;
+    }
     if (
       typeof quiz.params?.showHintAfterMisses === 'boolean' &&
       !quiz.params?.showHintAfterMisses
     ) {
-      return null;
+      return revealKey;
     }
     const showHintAfterMisses = quiz.params?.showHintAfterMisses || 3;
 
@@ -119,10 +149,18 @@ export function QuizMistakeHighlighter({
     if (shouldAnimateStroke) {
       return generateId();
     }
-    return null;
-  }, [quiz.mistakes, quiz.index, quiz.params]);
+    return revealKey;
+  }, [quiz.mistakes, quiz.index, quiz.params, quiz.reveal]);
 
-  if (!quiz.active || !animationPath || !animationKey) {
+  const isShowingHint = quiz.active && !!animationPath && !!animationKey;
+  const { recordHint } = writer.quiz;
+  useEffect(() => {
+    if (isShowingHint) {
+      recordHint();
+    }
+  }, [isShowingHint, animationKey, recordHint]);
+
+  if (!isShowingHint) {
     return null;
   }
 
@@ -142,13 +180,30 @@ export function QuizMistakeHighlighter({
   );
 }
 
+/** Component colours take precedence over the radical colour */
+function getStrokeColor(
+  stroke: Stroke,
+  color: string,
+  radicalColor?: string,
+  componentColors?: string[]
+) {
+  const componentColor =
+    stroke.componentIndex !== null
+      ? componentColors?.[stroke.componentIndex]
+      : undefined;
+  return componentColor || (stroke.isInRadical ? radicalColor : color) || color;
+}
+
 /** Animates all strokes */
 export function CharacterAnimator({
   color = '#555',
   radicalColor,
+  componentColors,
 }: {
   color?: string;
   radicalColor?: string;
+  /** Colours indexed by component (see `Character.components`) */
+  componentColors?: string[];
 }) {
   const writer = useContext(HanziWriterContext)!;
   const animationState = writer.animator.useStore((s) => s);
@@ -161,7 +216,12 @@ export function CharacterAnimator({
     <>
       {writer.characterClass.strokes.map((stroke, idx) => {
         const isLast = idx === writer.characterClass!.strokes.length - 1;
-        const colorToUse = stroke.isInRadical ? radicalColor : color;
+        const colorToUse = getStrokeColor(
+          stroke,
+          color,
+          radicalColor,
+          componentColors
+        );
         return (
           <StrokeAnimator
             ref={(ref) => {
@@ -176,7 +236,7 @@ export function CharacterAnimator({
                   : undefined,
               });
             }}
-            strokeColor={colorToUse || color}
+            strokeColor={colorToUse}
             strokeWidth={100}
             key={`char.${stroke.strokeNum}`}
             stroke={stroke}
@@ -191,7 +251,7 @@ interface CharacterLoaderProps {
   /** What to display while the character is loading */
   loading?: React.ReactNode;
   /** What to display if there's an error */
-  error?: React.ReactNode;
+  error?: React.ReactNode | CharacterErrorRenderer;
   /** Resolved character data */
   children: ReactNode;
 }
@@ -205,8 +265,15 @@ export function CharacterLoader({
 
   switch (writer.characterState.status) {
     case 'idle':
-      return null;
+      // Nothing is loaded without a character
+      return writer.character === null ? <>{children}</> : null;
     case 'rejected':
+      if (typeof error === 'function') {
+        return error({
+          error: writer.characterState.error,
+          retry: writer.refetch,
+        });
+      }
       return error || <Text>Error loading character</Text>;
     case 'pending':
       return loading || <LoadingIndicator />;
@@ -217,13 +284,7 @@ export function CharacterLoader({
 
 // TRANSFORM is computed per-writer from the Positioner (maps internal char coords -> SVG coords)
 function getWriterTransform(writer: ReturnType<typeof useHanziWriter>) {
-  const p = writer.positioner;
-  // map: x_e = internal_x * scale + xOffset
-  //      y_e = height - yOffset - internal_y * scale
-  // which is equivalent to: translate(xOffset, height - yOffset) scale(scale, -scale)
-  return `translate(${p.xOffset}, ${p.height - p.yOffset}) scale(${
-    p.scale
-  }, ${-p.scale})`;
+  return getPositionerTransform(writer.positioner);
 }
 
 export type HanziWriterAnimationState =
@@ -235,76 +296,17 @@ export type HanziWriterAnimationState =
 /** This component handles everything to do with the user's gestures on the writer element */
 export function UserStrokeGesture(props: PathProps) {
   const writer = useContext(HanziWriterContext)!;
-  const points = useSharedValue<Point[]>([]);
-  const active = writer.quiz.useStore((state) => state.active);
-  const fade = useSharedValue(1);
-
-  const check = useCallback(() => {
-    const simplifiedPoints = simplify(points.value, 1);
-    writer.quiz.check(simplifiedPoints);
-    // Fade out the user's stroke
-    fade.value = withTiming(0, { duration: 200 }, (finished) => {
-      // only reset the points if the animation finished
-      if (finished) {
-        points.value = [];
-      }
-    });
-  }, [writer.quiz.check]);
-
-  const panGesture = useMemo(
-    () =>
-      Gesture.Pan()
-        .enabled(active)
-        .minDistance(0)
-        .onBegin((event) => {
-          fade.value = 1;
-          points.value = [{ x: event.x, y: event.y }];
-        })
-        .onUpdate((event) => {
-          points.value = [...points.value, { x: event.x, y: event.y }];
-        })
-        .onEnd(() => {
-          if (points.value.length > 0) {
-            scheduleOnRN(check);
-          }
-        })
-        .onFinalize((_event, success) => {
-          // Pan never activated (e.g. tap without drag) — clear the preview point
-          if (!success) {
-            points.value = [];
-          }
-        }),
-    [active, check]
-  );
-
-  const animatedPathProps = useAnimatedProps(() => ({
-    d: getPathStringWorklet(points.value),
-    opacity: fade.value,
-  }));
+  const quizActive = writer.quiz.useStore((state) => state.active);
+  const inputActive = writer.input.useStore((state) => state.active);
 
   return (
-    <GestureDetector gesture={panGesture}>
-      <Animated.View
-        pointerEvents={active ? 'auto' : 'none'}
-        style={[StyleSheet.absoluteFill, styles.userStrokeLayer]}
-      >
-        <RNSvg
-          width={writer.size}
-          height={writer.size}
-          style={styles.transparentSvg}
-        >
-          <G>
-            <AnimatedPath
-              animatedProps={animatedPathProps}
-              stroke="black"
-              fill="none"
-              strokeWidth="2"
-              {...props}
-            />
-          </G>
-        </RNSvg>
-      </Animated.View>
-    </GestureDetector>
+    <StrokeGestureLayer
+      active={quizActive || inputActive}
+      size={writer.size}
+      // Strokes go to `writer.input` while it's collecting, rather than the quiz
+      onStroke={inputActive ? writer.input.addStroke : writer.quiz.check}
+      pathProps={props}
+    />
   );
 }
 
@@ -336,33 +338,176 @@ function HanziWriterSvg({ children, ...rest }: HanziWriterSvgProps) {
 function HanziWriterQuizStrokes(props: {
   color?: string;
   radicalColor?: string;
+  /** Colours indexed by component (see `Character.components`) */
+  componentColors?: string[];
+  /** Colour of the strokes drawn in a freehand quiz, which stay visible after grading. Default: '#333' */
+  freehandColor?: string;
+  /** Colour of drawn strokes that weren't accepted, once a freehand quiz is graded. Default: '#E33' */
+  freehandMistakeColor?: string;
 }) {
-  const { color = '#555' } = props;
+  const {
+    color = '#555',
+    freehandColor = '#333',
+    freehandMistakeColor = '#E33',
+  } = props;
   const writer = useContext(HanziWriterContext)!;
-  const quizIndex = writer.quiz.useStore((state) => state.index);
+  const drawnStrokes = writer.quiz.useStore((state) =>
+    state.active && !state.params.freehand ? state.drawnStrokes : null
+  );
+  const freehandStrokes = writer.quiz.useStore(
+    (state) => state.freehandStrokes
+  );
+  const freehandResult = writer.quiz.useStore((state) => state.freehandResult);
+  const highlightKey = writer.quiz.useStore((state) => state.highlightKey);
+  const highlightColor = writer.quiz.useStore(
+    (state) => state.params?.highlightCompleteColor || '#AAF'
+  );
+  const highlightDuration = writer.quiz.useStore(
+    (state) => state.params?.highlightCompleteDuration ?? 800
+  );
 
   const correctPaths =
-    writer.characterClass?.strokes.filter((_, i) => quizIndex > i) || [];
+    writer.characterClass?.strokes.filter((_, i) =>
+      drawnStrokes?.includes(i)
+    ) || [];
+
+  // Once graded, the user strokes line up with the freehand strokes
+  const userStrokes = writer.quiz.useStore((state) => state.userStrokes);
 
   return (
-    <G transform={getWriterTransform(writer)}>
-      {correctPaths.map((stroke) => {
-        const colorToUse = stroke.isInRadical ? props.radicalColor : color;
-        return (
-          <PathFadeIn
-            key={`c.${stroke.strokeNum}`}
-            d={stroke.path}
-            fill={colorToUse || color}
+    <>
+      {freehandStrokes.map((stroke, i) => (
+        <InkPath
+          key={`f.${i}`}
+          points={stroke.externalPoints}
+          color={
+            freehandResult && !userStrokes[i]?.isCorrect
+              ? freehandMistakeColor
+              : freehandColor
+          }
+        />
+      ))}
+      <G transform={getWriterTransform(writer)}>
+        {correctPaths.map((stroke) => {
+          return (
+            <PathFadeIn
+              key={`c.${stroke.strokeNum}`}
+              d={stroke.path}
+              fill={getStrokeColor(
+                stroke,
+                color,
+                props.radicalColor,
+                props.componentColors
+              )}
+            />
+          );
+        })}
+        {highlightKey && writer.characterClass && (
+          <CompletionHighlight
+            key={highlightKey}
+            strokes={writer.characterClass.strokes}
+            color={highlightColor}
+            duration={highlightDuration}
+            onComplete={() => writer.quiz.completeHighlight(highlightKey)}
           />
-        );
-      })}
-    </G>
+        )}
+      </G>
+    </>
+  );
+}
+
+/** Renders the strokes collected by `writer.input` */
+function HanziWriterInputStrokes(props: {
+  /** Default: '#333' */
+  color?: string;
+}) {
+  const { color = '#333' } = props;
+  const writer = useContext(HanziWriterContext)!;
+  const strokes = writer.input.useStore((state) => state.strokes);
+
+  return (
+    <>
+      {strokes.map((stroke, i) => (
+        <InkPath key={`i.${i}`} points={stroke.externalPoints} color={color} />
+      ))}
+    </>
+  );
+}
+
+/** A stroke drawn by the user, in screen coordinates */
+function InkPath(props: { points: Point[]; color: string }) {
+  return (
+    <Path
+      d={getPathString(props.points)}
+      stroke={props.color}
+      strokeWidth={4}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      fill="none"
+    />
+  );
+}
+
+/** Flashes the whole character once */
+function CompletionHighlight(props: {
+  strokes: Stroke[];
+  color: string;
+  duration: number;
+  onComplete: () => void;
+}) {
+  const { duration } = props;
+  const opacity = useSharedValue(0);
+  const onCompleteRef = useRef(props.onComplete);
+  onCompleteRef.current = props.onComplete;
+
+  useEffect(() => {
+    const onComplete = () => onCompleteRef.current();
+    opacity.value = withSequence(
+      withTiming(1, { duration: duration / 2, easing: Easing.linear }),
+      withTiming(
+        0,
+        { duration: duration / 2, easing: Easing.linear },
+        (finished) => {
+          if (finished) {
+            scheduleOnRN(onComplete);
+          }
+        }
+      )
+    );
+  }, [opacity, duration]);
+
+  return (
+    <>
+      {props.strokes.map((stroke) => (
+        <PathFlash
+          key={`h.${stroke.strokeNum}`}
+          d={stroke.path}
+          fill={props.color}
+          fillOpacity={opacity}
+        />
+      ))}
+    </>
   );
 }
 
+function PathFlash({
+  fillOpacity,
+  ...props
+}: Omit<PathProps, 'fillOpacity'> & { fillOpacity: SharedValue<number> }) {
+  const animatedProps = useAnimatedProps(() => {
+    return {
+      fillOpacity: Math.max(0, Math.min(1, fillOpacity.value)),
+    };
+  });
+
+  return <AnimatedPath animatedProps={animatedProps} {...props} />;
+}
+
 function HanziWriterCharacter(props: {
   color?: string;
   radicalColor?: string;
+  /** Colours indexed by component (see `Character.components`) */
+  componentColors?: string[];
 }) {
   const writer = useContext(HanziWriterContext)!;
   const { characterClass } = writer;
@@ -378,30 +523,46 @@ function HanziWriterCharacter(props: {
       {showCharStrokes && (
         <G transform={getWriterTransform(writer)}>
           {characterClass?.strokes.map((stroke) => {
-            const fillColor = stroke.isInRadical ? props.radicalColor : color;
             return (
               <Path
                 key={`sc.${stroke.strokeNum}`}
                 d={stroke.path}
-                fill={fillColor || color}
+                fill={getStrokeColor(
+                  stroke,
+                  color,
+                  props.radicalColor,
+                  props.componentColors
+                )}
               />
             );
           })}
         </G>
       )}
       <G transform={getWriterTransform(writer)}>
-        <CharacterAnimator color={color} radicalColor={props.radicalColor} />
+        <CharacterAnimator
+          color={color}
+          radicalColor={props.radicalColor}
+          componentColors={props.componentColors}
+        />
       </G>
     </>
   );
 }
 
+// Selected from when the outline is rendered outside a writer, so the store hook is always called
+const emptyQuizStore = createQuizStore('');
+
 function HanziWriterOutline(props: { color?: string }) {
   const writer = useContext(HanziWriterContext);
 
   const color = props.color || '#ededed';
+  const isHidden: boolean = useStore(
+    writer?.quiz.store ?? emptyQuizStore,
+    (s: QuizState) => s.active && !!getExamOptions(s.params)?.hideOutline,
+    undefined
+  );
 
-  if (!writer) {
+  if (!writer || isHidden) {
     return null;
   }
 
@@ -437,17 +598,20 @@ function PathFadeIn(props: PathProps) {
 export function HanziWriterGridLines(props: {
   color?: string;
   width?: number;
+  /** Defaults to the writer's size. Only needed outside of `<HanziWriter>` */
+  size?: number;
 }) {
-  const writer = useContext(HanziWriterContext)!;
+  const writer = useContext(HanziWriterContext);
   const { color = '#DDD', width = 2 } = props;
-  const mid = writer.size / 2;
+  const size = props.size ?? writer?.size ?? 0;
+  const mid = size / 2;
 
   return (
     <>
       <Line
         x1={0}
         y1={mid}
-        x2={writer.size}
+        x2={size}
         y2={mid}
         stroke={color}
         strokeWidth={width}
@@ -456,7 +620,7 @@ export function HanziWriterGridLines(props: {
         x1={mid}
         y1={0}
         x2={mid}
-        y2={writer.size}
+        y2={size}
         stroke={color}
         strokeWidth={width}
       />
@@ -470,36 +634,8 @@ const styles = StyleSheet.create({
     width: 300,
     maxHeight: 300,
   },
-  userStrokeLayer: {
-    zIndex: 2,
-  },
-  transparentSvg: {
-    backgroundColor: 'transparent',
-  },
 });
 
-function createStoreApi<T>(initialState: T) {
-  let state = initialState;
-  const subscribers = new Set<() => void>();
-  return {
-    subscribe: (listener: () => void) => {
-      subscribers.add(listener);
-      return () => {
-        subscribers.delete(listener);
-      };
-    },
-    getState: () => state,
-    setState(newState: Partial<T>) {
-      state = { ...state, ...newState };
-      subscribers.forEach((listener) => listener());
-    },
-  };
-}
-
-type AvailableQuizOptions = Omit<QuizOptions, 'highlightOnComplete'>;
-
-type StartQuizParams = Partial<AvailableQuizOptions>;
-
 interface CharacterAnimatorState {
   character: string;
   state: 'playing' | 'stopped';
@@ -562,53 +698,101 @@ const useCharacterAnimator = (params: { character: string }) => {
   };
 };
 
-type QuizState =
-  | {
-      readonly active: false;
-      character: string;
-      index: number;
-      mistakes: Record<number, number>;
-      params: null;
-    }
-  | {
-      readonly active: true;
-      character: string;
-      index: number;
-      mistakes: Record<number, number>;
-      params: StartQuizParams;
-    };
+interface HandwritingInputState {
+  active: boolean;
+  /** Strokes drawn so far */
+  strokes: Pick<QuizUserStroke, 'points' | 'externalPoints'>[];
+  onStroke: ((strokes: HandwritingInputState['strokes']) => void) | null;
+}
 
-const createQuizStore = (character: string) => {
-  const api = createStoreApi<QuizState>({
-    character,
-    active: false,
-    mistakes: {},
-    index: 0,
-    params: null,
-  });
+const useHandwritingInput = (params: {
+  character: string | null;
+  positioner: Positioner;
+}) => {
+  const { character, positioner } = params;
+  // Strokes drawn over one character are discarded when the character changes
+  const store = useMemo(
+    () =>
+      createStoreApi<HandwritingInputState>({
+        active: false,
+        strokes: [],
+        onStroke: null,
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [character]
+  );
+
+  /** Records a stroke from points in screen coordinates (called by `<HanziWriter.UserStrokeGesture>`) */
+  const addStroke = useCallback(
+    (externalPoints: Point[]) => {
+      const { active, onStroke } = store.getState();
+      if (!active || !externalPoints.length) {
+        return;
+      }
+      const strokes = [
+        ...store.getState().strokes,
+        {
+          points: externalPoints.map((point) =>
+            positioner.convertExternalPoint(point)
+          ),
+          externalPoints,
+        },
+      ];
+      store.setState({ strokes });
+      onStroke?.(strokes);
+    },
+    [positioner, store]
+  );
 
   return {
-    ...api,
-    next() {
-      api.setState({ index: api.getState().index + 1 });
+    store,
+    useStore<T>(
+      selector: (state: HandwritingInputState) => T,
+      equalityFn?: any
+    ): T {
+      return useStore(store, selector, equalityFn);
+    },
+    /** Starts collecting strokes (clearing any previous strokes). Collected strokes aren't sent to the quiz */
+    start(
+      options: {
+        /** Called with every stroke drawn so far, each time a stroke is drawn */
+        onStroke?: HandwritingInputState['onStroke'];
+      } = {}
+    ) {
+      store.setState({
+        active: true,
+        strokes: [],
+        onStroke: options.onStroke ?? null,
+      });
+    },
+    /** Stops collecting strokes. The strokes drawn so far are kept */
+    stop() {
+      store.setState({ active: false, onStroke: null });
+    },
+    clear() {
+      store.setState({ strokes: [] });
+    },
+    /** Removes the last stroke. Returns false if there's nothing to undo */
+    undo() {
+      const { strokes } = store.getState();
+      store.setState({ strokes: strokes.slice(0, -1) });
+      return strokes.length > 0;
+    },
+    addStroke,
+    /** Ranks candidate characters by how well the strokes drawn so far match them, best match first */
+    recognize(
+      candidates: Character[],
+      options?: Parameters<typeof recognizeCharacter>[2]
+    ) {
+      return recognizeCharacter(
+        store.getState().strokes.map((stroke) => stroke.points),
+        candidates,
+        options
+      );
     },
   };
 };
 
-function useStore(
-  api: ReturnType<typeof createStoreApi>,
-  selector: (state: any) => any,
-  equalityFn: any
-) {
-  return useSyncExternalStoreWithSelector(
-    api.subscribe,
-    api.getState,
-    api.getState,
-    selector,
-    equalityFn
-  );
-}
-
 const useQuiz = (params: {
   characterClass: Character | null;
   character: string;
@@ -617,114 +801,129 @@ const useQuiz = (params: {
 }) => {
   const { cancelAnimation, character, characterClass, positioner } = params;
 
-  const quizStore = useMemo(() => createQuizStore(character), [character]);
+  // Holds the (inactive) quiz state until the character has loaded
+  const idleStore = useMemo(() => createQuizStore(character), [character]);
+  const engine = useMemo(
+    () => characterClass && new QuizEngine(characterClass, positioner),
+    // The positioner is updated below instead, so resizing doesn't reset the quiz
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [characterClass]
+  );
+  if (engine) {
+    engine.positioner = positioner;
+  }
+  const quizStore = engine?.store ?? idleStore;
+  const idleTimerStore = useMemo(() => createQuizTimerStore(), []);
+  const timerStore = engine?.timerStore ?? idleTimerStore;
+
+  // Stops the time limit timer when the character changes or the writer unmounts
+  useEffect(() => () => engine?.stop(), [engine]);
 
   const check = useCallback(
     (simplifiedPoints: Point[]) => {
-      if (!characterClass) {
-        return;
-      }
-      const { index, mistakes, params } = quizStore.getState();
-      const [firstExternalPoint, ...restExternalPoints] = simplifiedPoints;
-      const firstPoint = positioner.convertExternalPoint(firstExternalPoint);
-      const userStroke = new UserStroke(index, firstPoint, firstExternalPoint);
-
-      for (const externalPoint of restExternalPoints) {
-        const offset = positioner.convertExternalPoint(externalPoint);
-        userStroke.appendPoint(offset, externalPoint);
-      }
-
-      const { isMatch, meta } = strokeMatches(
-        userStroke,
-        characterClass,
-        index,
-        {
-          leniency: params?.leniency || 1.2,
-        }
-      );
+      engine?.check(simplifiedPoints);
+    },
+    [engine]
+  );
 
-      const isAccepted =
-        isMatch || (meta.isStrokeBackwards && params?.acceptBackwardsStrokes);
+  /** Called by `<HanziWriter.QuizMistakeHighlighter>` each time it shows a hint */
+  const recordHint = useCallback(() => {
+    engine?.recordHint();
+  }, [engine]);
 
-      if (!isAccepted) {
-        const numMistakes = (mistakes[index] || 0) + 1;
-        quizStore.setState({
-          mistakes: {
-            ...mistakes,
-            [index]: numMistakes,
-          },
-        });
-        quizStore.getState().params?.onMistake?.({
-          character,
-          drawnPath: {
-            pathString: '',
-            points: userStroke.points,
-          },
-          isBackwards: meta.isStrokeBackwards,
-          mistakesOnStroke: numMistakes,
-          strokeNum: index,
-          strokesRemaining: characterClass.strokes.length - index,
-          totalMistakes: Object.keys(mistakes).length,
-        });
-      } else {
-        const active = index < characterClass.strokes.length - 1;
-
-        if (!active) {
-          params?.onComplete?.({
-            totalMistakes: Object.keys(mistakes).length,
-            character: characterClass.symbol,
-          });
-        }
-        quizStore.setState({ index: active ? index + 1 : 0, active });
-      }
+  /** Called by `<HanziWriter.QuizStrokes>` when the completion flash finishes */
+  const completeHighlight = useCallback(
+    (highlightKey: string) => {
+      engine?.completeHighlight(highlightKey);
     },
-    [character, characterClass, quizStore]
+    [engine]
   );
 
   return {
+    /** The underlying quiz engine, available once the character has loaded */
+    engine,
     store: quizStore,
     useStore<T>(selector: (state: QuizState) => T, equalityFn?: any): T {
       return useStore(quizStore, selector, equalityFn);
     },
+    /** Time left on the time limits, kept out of `store` so its subscribers don't re-render every 100ms */
+    timerStore,
+    useTimer<T>(selector: (state: QuizTimerState) => T, equalityFn?: any): T {
+      return useStore(timerStore, selector, equalityFn);
+    },
     check,
     start: (params: StartQuizParams) => {
-      if (!characterClass) {
+      if (!engine) {
         console.warn("Can't start quiz, character not loaded yet");
         return;
       }
       // Cancel any running animations
       cancelAnimation();
-
-      // Start from an index between 0 and the number of strokes
-      const index = Math.max(
-        Math.min(
-          params.quizStartStrokeNum || 0,
-          characterClass.strokes.length - 1
-        ),
-        0
-      );
-
-      quizStore.setState({
-        active: true,
-        index,
-        mistakes: {},
-        params,
-      });
+      engine.start(params);
     },
     stop: () => {
-      quizStore.setState({
-        active: false,
-        index: 0,
-        mistakes: {},
-        params: null,
-      });
+      engine?.stop();
+    },
+    /** Returns the state of the active quiz as a JSON-serializable snapshot (callbacks are left out), or null if no quiz is active */
+    serialize: () => engine?.serialize() ?? null,
+    /**
+     * Resumes a quiz from a snapshot created by `serialize()`. Callbacks aren't part of the snapshot, so pass them in `params`.
+     * Returns false if the snapshot can't be restored (e.g. it's for a different character).
+     */
+    restore: (snapshot: QuizSnapshot, params?: StartQuizParams) => {
+      if (!engine) {
+        console.warn("Can't restore quiz, character not loaded yet");
+        return false;
+      }
+      cancelAnimation();
+      return engine.restore(snapshot, params);
     },
+    /** Gives up on the current stroke, which is shown as drawn and recorded in `skippedStrokes` */
+    skipStroke: () => {
+      engine?.skipStroke();
+    },
+    /** Plays the hint for the current stroke (with `<HanziWriter.QuizMistakeHighlighter>`) */
+    revealStroke: () => {
+      engine?.revealStroke();
+    },
+    /** Steps back one accepted (or skipped or failed) stroke, undoing everything it recorded, or removes the last stroke of a freehand quiz. Returns false if there's nothing to undo */
+    undo: () => engine?.undo() ?? false,
+    /** Starts the current (or last) quiz over with the same options */
+    restart: () => {
+      if (!engine) {
+        console.warn("Can't restart quiz, character not loaded yet");
+        return;
+      }
+      cancelAnimation();
+      engine.restart();
+    },
+    /** Grades a freehand quiz (e.g. when the learner taps "done"). Returns null if no freehand quiz is active */
+    finish: () => engine?.finish() ?? null,
+    /** Returns a summary of the current (or last completed) quiz so far */
+    getSummary: () => getQuizSummary(quizStore.getState()),
+    recordHint,
+    completeHighlight,
   };
 };
 
+export type CharacterState =
+  | Exclude<PromiseState<Character>, { status: 'resolved' }>
+  | {
+      status: 'resolved';
+      data: Character;
+      /** Name of the loader source that provided the character, or `'cache'` */
+      source: string;
+    };
+
 export const useHanziWriter = (params: {
-  character: string;
-  loader?: (char: string) => Promise<CharacterJson> | CharacterJson;
+  /** The character to write, or null to only collect strokes with `writer.input` (e.g. for handwriting recognition) */
+  character: string | null;
+  /** A loader, or an ordered list of loader sources (with optional retry policies) tried until one succeeds */
+  loader?: CharDataLoaders;
+  /** Identifies the loader in cache keys. Defaults to the loader's `loaderId`. Without either, characters from a custom loader are only cached in memory */
+  loaderId?: string;
+  /** Cache that loaded characters are stored in. Defaults to a shared in-memory cache */
+  cache?: CharacterCache;
   /** Optional widget size in px (default 300) */
   size?: number;
   /** Optional padding for the Positioner (default 0) */
@@ -733,23 +932,57 @@ export const useHanziWriter = (params: {
   const { character } = params;
   const size = params.size ?? 300;
   const padding = params.padding ?? 0;
-
-  const promise = useCallback(async () => {
-    const loader = params.loader || defaultCharDataLoader;
-    const value = loader(character);
-    if (value instanceof Promise) {
-      return value.then((res) => parseCharData(character, res));
-    }
-    return parseCharData(character, value);
+  const cache = params.cache || defaultCharacterCache;
+  const derivedLoaderId = getLoadersId(params.loader);
+  // Inline loaders without a `loaderId` are re-created on every render, so keep the first one's id rather than reloading
+  const instanceLoaderIdRef = useRef<string | null>(null);
+  if (isInstanceLoaderId(derivedLoaderId)) {
+    instanceLoaderIdRef.current ??= derivedLoaderId;
+  }
+  const loaderId =
+    params.loaderId ??
+    (isInstanceLoaderId(derivedLoaderId)
+      ? instanceLoaderIdRef.current!
+      : derivedLoaderId);
+
+  const promise = useCallback(
+    (signal: AbortSignal) =>
+      loadCharacterWithSource(character!, {
+        loader: params.loader,
+        loaderId,
+        cache,
+        signal,
+      }),
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [character]);
+    [character, cache, loaderId]
+  );
 
-  const { state: characterState, refetch } = usePromise({
-    cacheKey: `char.${character}`,
-    promiseFn: promise,
+  // Without a character, nothing is loaded and the state stays idle
+  const { state: loadState, refetch } = usePromise({
+    cacheKey:
+      character === null
+        ? undefined
+        : CharacterCache.getKey(character, loaderId),
+    promiseFn: character === null ? undefined : promise,
+    getCached: () => {
+      if (character === null) {
+        return undefined;
+      }
+      const cached = cache.peek(character, loaderId);
+      return cached && { character: cached, source: CACHE_SOURCE };
+    },
   });
 
-  const animator = useCharacterAnimator({ character });
+  const characterState: CharacterState =
+    loadState.status === 'resolved'
+      ? {
+          status: 'resolved',
+          data: loadState.data.character,
+          source: loadState.data.source,
+        }
+      : loadState;
+
+  const animator = useCharacterAnimator({ character: character ?? '' });
 
   const characterClass =
     characterState.status === 'resolved' ? characterState.data : null;
@@ -760,19 +993,41 @@ export const useHanziWriter = (params: {
   );
 
   const quiz = useQuiz({
-    character,
+    character: character ?? '',
     characterClass,
     cancelAnimation: animator.cancelAnimation,
     positioner,
   });
 
+  const input = useHandwritingInput({ character, positioner });
+
+  /** Warms the cache for upcoming characters using this writer's loader and cache */
+  const preload = useCallback(
+    (
+      chars: string[] | string,
+      options?: Pick<PrefetchOptions, 'concurrency' | 'onProgress' | 'signal'>
+    ) =>
+      prefetchCharacters(chars, {
+        ...options,
+        loader: params.loader,
+        loaderId,
+        cache,
+      }),
+    // The loader is identified by `loaderId`, so inline loaders don't re-create the function
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [loaderId, cache]
+  );
+
   return {
+    character,
     animator,
     quiz,
+    input,
     characterState,
     characterClass,
     refetch,
     size,
     positioner,
+    preload,
   };
 };
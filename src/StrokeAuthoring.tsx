@@ -0,0 +1,182 @@
+import { useCallback, useMemo, type ReactNode } from 'react';
+import { StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+import RNSvg, { G, Path, type PathProps } from 'react-native-svg';
+import { HanziWriterGridLines } from './HanziWriter';
+import { StrokeGestureLayer } from './components/StrokeGestureLayer';
+import { getPathString, outlineStroke } from './geometry';
+import { parseCharData, Positioner, validateCharData } from './hanzi-writer';
+import { useStore } from './hooks/useStore';
+import simplify from './simplify';
+import { createStoreApi } from './store';
+import type { CharacterJson, Point } from './types';
+import { getPositionerTransform } from './utils';
+
+export interface AuthoredStroke {
+  /** Outline path in internal coordinates */
+  path: string;
+  /** Simplified centreline in internal coordinates */
+  median: Point[];
+}
+
+interface StrokeAuthoringState {
+  active: boolean;
+  strokes: AuthoredStroke[];
+}
+
+/**
+ * Lets the user draw a character stroke by stroke (as centrelines) to create character data,
+ * e.g. for rare characters or custom symbols. Render it with `<StrokeAuthoringPad>`.
+ */
+export const useStrokeAuthoring = (
+  params: {
+    /** Optional widget size in px (default 300) */
+    size?: number;
+    /** Optional padding for the Positioner (default 0) */
+    padding?: number;
+    /** Width of the generated stroke outlines, in internal (1024 unit) coordinates. Default: 64 */
+    strokeWidth?: number;
+    /** Tolerance used to simplify medians, in internal coordinates. Default: 12 */
+    medianTolerance?: number;
+  } = {}
+) => {
+  const size = params.size ?? 300;
+  const padding = params.padding ?? 0;
+  const { strokeWidth = 64, medianTolerance = 12 } = params;
+
+  const positioner = useMemo(
+    () => new Positioner({ height: size, width: size, padding }),
+    [size, padding]
+  );
+
+  const store = useMemo(
+    () => createStoreApi<StrokeAuthoringState>({ active: true, strokes: [] }),
+    []
+  );
+
+  /** Adds a stroke from points in screen coordinates. Returns false if the stroke was too short. */
+  const addStroke = useCallback(
+    (externalPoints: Point[]) => {
+      const points = externalPoints.map((point) =>
+        positioner.convertExternalPoint(point)
+      );
+      const median = simplify(points, medianTolerance, true);
+      if (median.length < 2) {
+        return false;
+      }
+      const stroke: AuthoredStroke = {
+        path: getPathString(outlineStroke(points, strokeWidth), true),
+        median,
+      };
+      store.setState({ strokes: [...store.getState().strokes, stroke] });
+      return true;
+    },
+    [positioner, store, strokeWidth, medianTolerance]
+  );
+
+  /** Returns the drawn strokes as character data. Additional fields (such as `radStrokes`) are merged in and validated. */
+  const toCharacterJson = (
+    extra: Omit<Partial<CharacterJson>, 'strokes' | 'medians'> = {}
+  ): CharacterJson => {
+    const { strokes } = store.getState();
+    const data: CharacterJson = {
+      ...extra,
+      strokes: strokes.map((stroke) => stroke.path),
+      medians: strokes.map((stroke) =>
+        stroke.median.map((point) => [Math.round(point.x), Math.round(point.y)])
+      ),
+    };
+    validateCharData('', data);
+    return data;
+  };
+
+  return {
+    store,
+    useStore<T>(
+      selector: (state: StrokeAuthoringState) => T,
+      equalityFn?: any
+    ): T {
+      return useStore(store, selector, equalityFn);
+    },
+    size,
+    positioner,
+    addStroke,
+    /** Removes the last stroke */
+    undo() {
+      store.setState({ strokes: store.getState().strokes.slice(0, -1) });
+    },
+    clear() {
+      store.setState({ strokes: [] });
+    },
+    /** Enables or disables drawing */
+    setActive(active: boolean) {
+      store.setState({ active });
+    },
+    toCharacterJson,
+    /** Parses the drawn strokes into a `Character` (e.g. to preview or quiz it) */
+    toCharacter(symbol: string, extra?: Parameters<typeof toCharacterJson>[0]) {
+      return parseCharData(symbol, toCharacterJson(extra));
+    },
+  };
+};
+
+interface StrokeAuthoringPadProps {
+  authoring: ReturnType<typeof useStrokeAuthoring>;
+  /** Fill colour of the drawn strokes. Default: '#555' */
+  color?: string;
+  /** Colour of the grid lines. Set to `false` to hide them. Default: '#DDD' */
+  gridColor?: string | false;
+  /** Rendered underneath the strokes, inside the SVG (e.g. a reference image) */
+  children?: ReactNode;
+  style?: StyleProp<ViewStyle>;
+  userStrokeProps?: PathProps;
+}
+
+/** Drawing surface for `useStrokeAuthoring` */
+export function StrokeAuthoringPad({
+  authoring,
+  color = '#555',
+  gridColor = '#DDD',
+  children,
+  style,
+  userStrokeProps,
+}: StrokeAuthoringPadProps) {
+  const { size } = authoring;
+  const strokes = authoring.useStore((state) => state.strokes);
+  const active = authoring.useStore((state) => state.active);
+
+  const onStroke = useCallback(
+    (points: Point[]) => {
+      authoring.addStroke(points);
+    },
+    [authoring.addStroke]
+  );
+
+  return (
+    <View style={[styles.root, { width: size, height: size }, style]}>
+      <RNSvg width={size} height={size}>
+        {gridColor !== false && (
+          <HanziWriterGridLines color={gridColor} size={size} />
+        )}
+        {children}
+        <G transform={getPositionerTransform(authoring.positioner)}>
+          {strokes.map((stroke, index) => (
+            <Path key={`a.${index}`} d={stroke.path} fill={color} />
+          ))}
+        </G>
+      </RNSvg>
+      <StrokeGestureLayer
+        active={active}
+        size={size}
+        onStroke={onStroke}
+        pathProps={userStrokeProps}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    height: 300,
+    width: 300,
+  },
+});
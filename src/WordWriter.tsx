@@ -0,0 +1,243 @@
+import { useEffect, useMemo } from 'react';
+import { useHanziWriter } from './HanziWriter';
+import { useStore } from './hooks/useStore';
+import type { StartQuizParams } from './quiz-engine';
+import { createStoreApi } from './store';
+import type { QuizSummary, WordQuizSummary } from './types';
+
+export type StartWordQuizParams = Omit<
+  StartQuizParams,
+  'onComplete' | 'onQuizTimeout'
+> & {
+  /** Callback when each character of the word is completed */
+  onCharacterComplete?: (summary: QuizSummary, charIndex: number) => void;
+  /** Callback when the whole word is completed */
+  onComplete?: (summary: WordQuizSummary) => void;
+  /** Callback when a character runs out of time (see `quizTimeLimit` and `strokeTimeoutAction: 'end'`), which ends the word quiz */
+  onQuizTimeout?: (summary: WordQuizSummary) => void;
+};
+
+interface WordQuizState {
+  word: string;
+  active: boolean;
+  /** Counts the quizzes started, so starting again on the first character restarts it */
+  quizId: number;
+  /** Index of the character being shown (and quizzed) */
+  currentCharIndex: number;
+  /** Summaries of the completed characters, indexed by character */
+  results: QuizSummary[];
+  /** Whether a character ran out of time, ending the word quiz */
+  timedOut: boolean;
+  startTime: number;
+  endTime: number | null;
+  params: StartWordQuizParams | null;
+}
+
+const getWordQuizSummary = (state: WordQuizState): WordQuizSummary => {
+  const sum = (
+    key: 'totalMistakes' | 'backwardsStrokes' | 'orderViolations' | 'hintsShown'
+  ) => state.results.reduce((total, result) => total + result[key], 0);
+
+  return {
+    word: state.word,
+    totalMistakes: sum('totalMistakes'),
+    backwardsStrokes: sum('backwardsStrokes'),
+    orderViolations: sum('orderViolations'),
+    hintsShown: sum('hintsShown'),
+    elapsedTime: (state.endTime ?? Date.now()) - state.startTime,
+    timedOut: state.timedOut,
+    characters: state.results,
+  };
+};
+
+/**
+ * Quizzes a multi-character word (e.g. 图书馆) one character at a time. Render `writer` with `<HanziWriter>`;
+ * it advances to the next character once each one is completed and its completion flash has played. Every character is preloaded up front.
+ */
+export const useWordWriter = (
+  params: Omit<Parameters<typeof useHanziWriter>[0], 'character'> & {
+    word: string;
+  }
+) => {
+  const { word, ...writerParams } = params;
+  const characters = useMemo(() => Array.from(word), [word]);
+
+  const store = useMemo(
+    () =>
+      createStoreApi<WordQuizState>({
+        word,
+        active: false,
+        quizId: 0,
+        currentCharIndex: 0,
+        results: [],
+        timedOut: false,
+        startTime: 0,
+        endTime: null,
+        params: null,
+      }),
+    [word]
+  );
+
+  const currentCharIndex: number = useStore(
+    store,
+    (state: WordQuizState) => state.currentCharIndex,
+    undefined
+  );
+  const active: boolean = useStore(
+    store,
+    (state: WordQuizState) => state.active,
+    undefined
+  );
+  const quizId: number = useStore(
+    store,
+    (state: WordQuizState) => state.quizId,
+    undefined
+  );
+
+  const writer = useHanziWriter({
+    ...writerParams,
+    character: characters[currentCharIndex] ?? null,
+  });
+  const { characterClass } = writer;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    writer.preload(characters, { signal: controller.signal });
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [characters]);
+
+  // Start the quiz on each character once it has loaded
+  useEffect(() => {
+    const state = store.getState();
+    if (
+      !state.active ||
+      !state.params ||
+      characterClass?.symbol !== characters[currentCharIndex]
+    ) {
+      return;
+    }
+    const {
+      onComplete,
+      onCharacterComplete,
+      onQuizTimeout,
+      quizStartStrokeNum,
+      ...quizParams
+    } = state.params;
+    const charIndex = currentCharIndex;
+    const { engine } = writer.quiz;
+
+    const endOnTimeout = (results: QuizSummary[]) => {
+      store.setState({
+        results,
+        active: false,
+        timedOut: true,
+        endTime: Date.now(),
+      });
+      onQuizTimeout?.(getWordQuizSummary(store.getState()));
+    };
+
+    writer.quiz.start({
+      ...quizParams,
+      quizStartStrokeNum: charIndex === 0 ? quizStartStrokeNum : 0,
+      onQuizTimeout(summary) {
+        // Freehand quizzes are still graded after timing out, so the word ends once they complete
+        if (quizParams.freehand) {
+          store.setState({ timedOut: true });
+          return;
+        }
+        const results = [...store.getState().results];
+        results[charIndex] = summary;
+        endOnTimeout(results);
+      },
+      onComplete(summary) {
+        const results = [...store.getState().results];
+        results[charIndex] = summary;
+        onCharacterComplete?.(summary, charIndex);
+
+        if (store.getState().timedOut) {
+          endOnTimeout(results);
+          return;
+        }
+
+        if (charIndex < characters.length - 1) {
+          store.setState({ results });
+          const next = () => {
+            const current = store.getState();
+            // Ignore the flash of a quiz that was stopped or started again
+            if (
+              current.active &&
+              current.quizId === quizId &&
+              current.currentCharIndex === charIndex
+            ) {
+              store.setState({ currentCharIndex: charIndex + 1 });
+            }
+          };
+          // Let the completion flash play before moving on
+          if (engine?.getState().highlightKey) {
+            const unsubscribe = engine.on('highlightComplete', () => {
+              unsubscribe();
+              next();
+            });
+          } else {
+            next();
+          }
+          return;
+        }
+        store.setState({ results, active: false, endTime: Date.now() });
+        onComplete?.(getWordQuizSummary(store.getState()));
+      },
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active, quizId, characterClass, currentCharIndex, characters, store]);
+
+  return {
+    writer,
+    characters,
+    currentCharIndex,
+    store,
+    useStore<T>(selector: (state: WordQuizState) => T, equalityFn?: any): T {
+      return useStore(store, selector, equalityFn);
+    },
+    quiz: {
+      /** Starts the quiz from the first character. `quizStartStrokeNum` only applies to the first character */
+      start(quizParams: StartWordQuizParams) {
+        store.setState({
+          active: true,
+          quizId: store.getState().quizId + 1,
+          currentCharIndex: 0,
+          results: [],
+          timedOut: false,
+          startTime: Date.now(),
+          endTime: null,
+          params: quizParams,
+        });
+      },
+      stop() {
+        store.setState({
+          active: false,
+          currentCharIndex: 0,
+          results: [],
+          timedOut: false,
+          endTime: null,
+          params: null,
+        });
+        writer.quiz.stop();
+      },
+      /** Returns a summary of the characters completed so far */
+      getSummary: () => getWordQuizSummary(store.getState()),
+    },
+    /** Shows another character of the word. Ignored while a quiz is active */
+    goToChar(charIndex: number) {
+      if (store.getState().active) {
+        return;
+      }
+      store.setState({
+        currentCharIndex: Math.max(
+          0,
+          Math.min(charIndex, characters.length - 1)
+        ),
+      });
+    },
+  };
+};
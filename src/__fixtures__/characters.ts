@@ -0,0 +1,74 @@
+import { parseCharData, Positioner } from '../hanzi-writer';
+import type { CharacterJson, Point } from '../types';
+
+/** Median points along a straight stroke, spaced like real character data */
+const median = (from: [number, number], to: [number, number]) =>
+  Array.from({ length: 9 }, (_, i) => [
+    from[0] + ((to[0] - from[0]) * i) / 8,
+    from[1] + ((to[1] - from[1]) * i) / 8,
+  ]);
+
+/** 十: a horizontal stroke, then a vertical stroke crossing it */
+export const shiData: CharacterJson = {
+  strokes: ['M 100 500 L 900 500', 'M 500 850 L 500 0'],
+  medians: [median([100, 500], [900, 500]), median([500, 850], [500, 0])],
+};
+
+/** 土: 十 with a longer horizontal stroke underneath */
+export const tuData: CharacterJson = {
+  strokes: ['M 200 550 L 800 550', 'M 500 850 L 500 50', 'M 100 50 L 900 50'],
+  medians: [
+    median([200, 550], [800, 550]),
+    median([500, 850], [500, 50]),
+    median([100, 50], [900, 50]),
+  ],
+};
+
+export const shi = parseCharData('十', shiData);
+export const tu = parseCharData('土', tuData);
+
+/** Screen and character coordinates line up, besides the y axis pointing down */
+export const positioner = new Positioner({
+  width: 1024,
+  height: 1024,
+  padding: 0,
+});
+
+/** Converts points in character coordinates to screen coordinates */
+export const toScreen = (points: Point[]) =>
+  points.map((point) => ({
+    x: point.x * positioner.scale + positioner.xOffset,
+    y: positioner.height - positioner.yOffset - point.y * positioner.scale,
+  }));
+
+/** Points along a straight line, in character coordinates */
+export const line = (
+  from: [number, number],
+  to: [number, number],
+  count = 10
+) =>
+  Array.from({ length: count }, (_, i) => ({
+    x: from[0] + ((to[0] - from[0]) * i) / (count - 1),
+    y: from[1] + ((to[1] - from[1]) * i) / (count - 1),
+  }));
+
+/** Screen points tracing a stroke's median, optionally backwards */
+export const traceStroke = (
+  data: CharacterJson,
+  strokeNum: number,
+  backwards = false
+) => {
+  const median = data.medians[strokeNum];
+  const [from, to] = backwards
+    ? [median[median.length - 1], median[0]]
+    : [median[0], median[median.length - 1]];
+  return toScreen(line(from as [number, number], to as [number, number]));
+};
+
+/** Screen points that don't resemble any stroke of 十 or 土 */
+export const scribble = () =>
+  toScreen([
+    { x: 100, y: 900 },
+    { x: 300, y: 700 },
+    { x: 150, y: 650 },
+  ]);
@@ -0,0 +1,116 @@
+import {
+  AdaptiveGrading,
+  type AdaptiveGradingState,
+} from '../adaptive-grading';
+import type { QuizSummary } from '../types';
+
+/** A quiz summary with one accepted stroke per score, and `mistakes` mistakes in total */
+const createSummary = (mistakes: number, scores = [0.9, 0.9]): QuizSummary => ({
+  character: '十',
+  totalMistakes: mistakes,
+  mistakesByStroke: mistakes ? { 0: mistakes } : {},
+  backwardsStrokes: 0,
+  orderViolations: 0,
+  hintsShown: 0,
+  skippedStrokes: [],
+  failedStrokes: [],
+  joinedStrokes: [],
+  freehand: null,
+  exam: null,
+  strokeTimeouts: 0,
+  timedOut: false,
+  unfinishedStrokes: [],
+  revealedStrokes: 0,
+  undos: 0,
+  restarts: 0,
+  startStrokeNum: 0,
+  elapsedTime: 1000,
+  strokeTimes: {},
+  userStrokes: scores.map((score, strokeNum) => ({
+    strokeNum,
+    points: [],
+    externalPoints: [],
+    isCorrect: true,
+    isBackwards: false,
+    isJoined: false,
+    score,
+    time: 0,
+  })),
+});
+
+describe('AdaptiveGrading', () => {
+  it('loosens grading while the learner makes many mistakes', () => {
+    const adaptive = new AdaptiveGrading();
+    expect(adaptive.recordQuiz(createSummary(2))).toBe(1.1);
+    expect(adaptive.recordQuiz(createSummary(2))).toBe(1.2);
+  });
+
+  it('tightens grading as the learner improves', () => {
+    const adaptive = new AdaptiveGrading();
+    expect(adaptive.recordQuiz(createSummary(0))).toBe(0.9);
+    expect(adaptive.recordQuiz(createSummary(0))).toBe(0.8);
+  });
+
+  it("doesn't tighten grading while strokes are near misses", () => {
+    const adaptive = new AdaptiveGrading();
+    expect(adaptive.recordQuiz(createSummary(0, [0.9, 0.5]))).toBe(1);
+  });
+
+  it('keeps the leniency within the limits', () => {
+    const onChange = jest.fn();
+    const adaptive = new AdaptiveGrading(null, {
+      minLeniency: 0.9,
+      maxLeniency: 1.1,
+      onChange,
+    });
+    for (let i = 0; i < 5; i++) {
+      adaptive.recordQuiz(createSummary(0));
+    }
+    expect(adaptive.leniency).toBe(0.9);
+    for (let i = 0; i < 10; i++) {
+      adaptive.recordQuiz(createSummary(4));
+    }
+    expect(adaptive.leniency).toBe(1.1);
+    expect(onChange).toHaveBeenLastCalledWith(adaptive.getState());
+  });
+
+  it('clamps restored state to the limits', () => {
+    const state: AdaptiveGradingState = {
+      version: 1,
+      leniency: 5,
+      history: [],
+    };
+    expect(new AdaptiveGrading(state).leniency).toBe(1.8);
+  });
+
+  it('discards state from an unknown version', () => {
+    const state = { version: 2, leniency: 1.5, history: [{}] };
+    const adaptive = new AdaptiveGrading(
+      state as unknown as AdaptiveGradingState,
+      {
+        initialLeniency: 1.2,
+      }
+    );
+    expect(adaptive.getState()).toEqual({
+      version: 1,
+      leniency: 1.2,
+      history: [],
+    });
+  });
+
+  it('records quizzes completed with its quiz params', () => {
+    const onComplete = jest.fn();
+    const adaptive = new AdaptiveGrading();
+    const params = adaptive.getQuizParams({
+      onComplete,
+      showHintAfterMisses: 2,
+    });
+    expect(params).toMatchObject({ leniency: 1, showHintAfterMisses: 2 });
+
+    const summary = createSummary(2);
+    params.onComplete!(summary);
+    expect(onComplete).toHaveBeenCalledWith(summary);
+    expect(adaptive.leniency).toBe(1.1);
+    expect(adaptive.getQuizParams().leniency).toBe(1.1);
+  });
+});
@@ -0,0 +1,156 @@
+import { shiData } from '../__fixtures__/characters';
+import {
+  CharacterCache,
+  createMemoryStorage,
+  getLoaderId,
+  isInstanceLoaderId,
+  type CharacterCacheStorage,
+} from '../character-cache';
+
+/** Memory storage that records every write */
+const createSpyStorage = () => {
+  const storage = createMemoryStorage();
+  return {
+    ...storage,
+    setItem: jest.fn(storage.setItem),
+    removeItem: jest.fn(storage.removeItem),
+  } satisfies CharacterCacheStorage;
+};
+
+const getIndex = async (storage: CharacterCacheStorage) =>
+  JSON.parse((await storage.getItem('hanzi-writer:index')) ?? '[]').map(
+    (entry: { character: string }) => entry.character
+  );
+
+describe('CharacterCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns characters from memory synchronously', async () => {
+    const cache = new CharacterCache();
+    expect(cache.peek('十')).toBeUndefined();
+    const character = await cache.set('十', shiData);
+    expect(cache.peek('十')).toBe(character);
+    expect(await cache.get('十')).toBe(character);
+  });
+
+  it('loads characters persisted by another instance', async () => {
+    const storage = createMemoryStorage();
+    await new CharacterCache({ storage }).set('十', shiData);
+
+    const cache = new CharacterCache({ storage });
+    expect(cache.peek('十')).toBeUndefined();
+    expect((await cache.get('十'))?.strokes).toHaveLength(2);
+    expect(cache.peek('十')).toBeDefined();
+  });
+
+  it('evicts the least recently used characters', async () => {
+    const storage = createMemoryStorage();
+    const cache = new CharacterCache({ storage, maxEntries: 2 });
+    await cache.set('一', shiData);
+    await cache.set('二', shiData);
+    // Using 一 makes 二 the least recently used
+    await cache.get('一');
+    await cache.set('三', shiData);
+
+    expect(cache.peek('二')).toBeUndefined();
+    expect(await getIndex(storage)).toEqual(['一', '三']);
+    expect(await storage.getItem('hanzi-writer:default:二')).toBeNull();
+  });
+
+  it("keeps every entry's index when characters are set concurrently", async () => {
+    const storage = createMemoryStorage();
+    const cache = new CharacterCache({ storage, maxEntries: 3 });
+    await Promise.all(
+      ['一', '二', '三', '四', '五'].map((char) => cache.set(char, shiData))
+    );
+    expect(await getIndex(storage)).toEqual(['三', '四', '五']);
+  });
+
+  it('defers index writes for cache hits until flushed', async () => {
+    const storage = createSpyStorage();
+    const writer = new CharacterCache({ storage });
+    await writer.set('一', shiData);
+    await writer.set('二', shiData);
+
+    const cache = new CharacterCache({ storage });
+    storage.setItem.mockClear();
+    await cache.get('一');
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    await cache.flush();
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(await getIndex(storage)).toEqual(['二', '一']);
+  });
+
+  it('keeps characters in memory when storage writes fail', async () => {
+    const storage = createMemoryStorage();
+    const cache = new CharacterCache({
+      storage: {
+        ...storage,
+        setItem: () => Promise.reject(new Error('quota')),
+      },
+    });
+    const character = await cache.set('十', shiData);
+    expect(cache.peek('十')).toBe(character);
+    expect(await storage.getItem('hanzi-writer:default:十')).toBeNull();
+  });
+
+  it('keeps the character when only the index write fails', async () => {
+    const storage = createMemoryStorage();
+    const cache = new CharacterCache({
+      storage: {
+        ...storage,
+        setItem: (key, value) =>
+          key === 'hanzi-writer:index'
+            ? Promise.reject(new Error('quota'))
+            : storage.setItem(key, value),
+      },
+    });
+    await expect(cache.set('十', shiData)).resolves.toBeDefined();
+    expect(await cache.get('十')).toBeDefined();
+  });
+
+  it('discards expired entries', async () => {
+    jest.useFakeTimers();
+    const storage = createMemoryStorage();
+    const cache = new CharacterCache({ storage, ttl: 1000 });
+    await cache.set('十', shiData);
+    jest.advanceTimersByTime(1001);
+
+    expect(cache.peek('十')).toBeUndefined();
+    expect(await cache.get('十')).toBeUndefined();
+    expect(await getIndex(storage)).toEqual([]);
+  });
+
+  it('discards entries stored under another version', async () => {
+    const storage = createMemoryStorage();
+    await new CharacterCache({ storage, version: 1 }).set('十', shiData);
+    const cache = new CharacterCache({ storage, version: 2 });
+    expect(await cache.get('十')).toBeUndefined();
+  });
+
+  it('keeps loaders apart', async () => {
+    const cache = new CharacterCache();
+    await cache.set('十', shiData, 'a');
+    expect(cache.peek('十', 'a')).toBeDefined();
+    expect(cache.peek('十', 'b')).toBeUndefined();
+
+    await cache.invalidate('十');
+    expect(cache.peek('十', 'a')).toBeUndefined();
+  });
+
+  it('only keeps characters from loaders without an id in memory', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = createSpyStorage();
+    const cache = new CharacterCache({ storage });
+    const loaderId = getLoaderId(() => shiData);
+    expect(isInstanceLoaderId(loaderId)).toBe(true);
+
+    await cache.set('十', shiData, loaderId);
+    expect(cache.peek('十', loaderId)).toBeDefined();
+    expect(storage.setItem).not.toHaveBeenCalled();
+    jest.mocked(console.warn).mockRestore();
+  });
+});
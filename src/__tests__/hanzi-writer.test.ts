@@ -0,0 +1,263 @@
+import { line, shi, shiData, tu, tuData } from '../__fixtures__/characters';
+import { CharacterDataInvalidError } from '../errors';
+import {
+  getGradingProfile,
+  gradingProfiles,
+  parseCharData,
+  recognizeCharacter,
+  strokeMatches,
+  UserStroke,
+  validateCharData,
+} from '../hanzi-writer';
+import type { CharacterJson, Point } from '../types';
+
+/** A drawn stroke through the points, in character coordinates */
+const userStroke = (points: Point[]) => {
+  const stroke = new UserStroke(1, points[0], points[0]);
+  points.slice(1).forEach((point) => stroke.appendPoint(point, point));
+  return stroke;
+};
+
+describe('strokeMatches', () => {
+  it('grades every criterion of a matching stroke', () => {
+    const { isMatch, grading } = strokeMatches(
+      userStroke(line([150, 520], [880, 510])),
+      shi,
+      0
+    );
+    expect(isMatch).toBe(true);
+    expect(grading!.startDistance).toMatchObject({
+      passed: true,
+      offset: { x: 50, y: 20 },
+    });
+    expect(grading!.endDistance.offset).toEqual({ x: -20, y: 10 });
+    for (const criterion of [
+      grading!.averageDistance,
+      grading!.direction,
+      grading!.shape,
+      grading!.length,
+    ]) {
+      expect(criterion.passed).toBe(true);
+      expect(criterion.score).toBeGreaterThanOrEqual(0.5);
+    }
+    expect(grading!.score).toBeGreaterThan(0.5);
+  });
+
+  it('reports the criteria a stroke fails', () => {
+    const { isMatch, meta, grading } = strokeMatches(
+      userStroke(line([900, 500], [100, 500])),
+      shi,
+      0
+    );
+    expect(isMatch).toBe(false);
+    expect(meta.isStrokeBackwards).toBe(true);
+    expect(grading!.averageDistance.passed).toBe(true);
+    expect(grading!.startDistance.passed).toBe(false);
+    expect(grading!.direction.passed).toBe(false);
+    expect(grading!.direction.value).toBeCloseTo(-1);
+    expect(grading!.direction.score).toBeLessThan(0.5);
+  });
+
+  it("doesn't grade strokes that are too short", () => {
+    expect(strokeMatches(userStroke([{ x: 0, y: 0 }]), shi, 0)).toMatchObject({
+      isMatch: false,
+      grading: null,
+    });
+  });
+
+  it('reports the later stroke that was drawn instead of the expected one', () => {
+    const result = strokeMatches(userStroke(line([100, 50], [900, 50])), tu, 0);
+    expect(result.isMatch).toBe(false);
+    expect(result.competingStroke).toMatchObject({ strokeNum: 2 });
+  });
+
+  it("doesn't report a competing stroke when the expected stroke was drawn", () => {
+    expect(
+      strokeMatches(userStroke(line([500, 850], [500, 50])), tu, 1)
+        .competingStroke
+    ).toBeNull();
+  });
+});
+
+describe('grading profiles', () => {
+  it('resolves presets and overrides of the standard profile', () => {
+    expect(getGradingProfile()).toBe(gradingProfiles.standard);
+    expect(getGradingProfile('child')).toBe(gradingProfiles.child);
+    expect(getGradingProfile({ avgDistThreshold: 500 })).toEqual({
+      ...gradingProfiles.standard,
+      avgDistThreshold: 500,
+    });
+  });
+
+  it('accepts offset starts and ends for children', () => {
+    // Starts and ends 300 units past each end of the stroke
+    const stroke = userStroke(line([-200, 500], [1200, 500]));
+    const standard = strokeMatches(stroke, shi, 0);
+    expect(standard.isMatch).toBe(false);
+    expect(standard.grading!.startDistance.passed).toBe(false);
+    expect(strokeMatches(stroke, shi, 0, { profile: 'child' }).isMatch).toBe(
+      true
+    );
+  });
+
+  it('applies partial overrides', () => {
+    const stroke = userStroke(line([-200, 500], [1200, 500]));
+    expect(
+      strokeMatches(stroke, shi, 0, {
+        profile: { startAndEndDistThreshold: 400 },
+      }).isMatch
+    ).toBe(true);
+  });
+
+  it('grades with a direction threshold of 1', () => {
+    const { grading } = strokeMatches(
+      userStroke(line([100, 500], [900, 500])),
+      shi,
+      0,
+      { profile: { cosineSimilarityThreshold: 1 } }
+    );
+    expect(grading!.direction.score).not.toBeNaN();
+    expect(grading!.score).not.toBeNaN();
+  });
+});
+
+describe('recognizeCharacter', () => {
+  /** Points along each of the character's medians */
+  const trace = (data: CharacterJson, strokeNums?: number[]) =>
+    (strokeNums ?? data.medians.map((_, i) => i)).map((strokeNum) => {
+      const median = data.medians[strokeNum];
+      return line(
+        median[0] as [number, number],
+        median[median.length - 1] as [number, number]
+      );
+    });
+
+  it('ranks the character that was drawn first', () => {
+    const symbols = (strokes: Point[][]) =>
+      recognizeCharacter(strokes, [shi, tu]).map(
+        (result) => result.character.symbol
+      );
+    expect(symbols(trace(shiData))).toEqual(['十', '土']);
+    expect(symbols(trace(tuData))).toEqual(['土', '十']);
+  });
+
+  it("doesn't depend on stroke order", () => {
+    const [result] = recognizeCharacter(trace(tuData, [2, 0, 1]), [shi, tu]);
+    expect(result.character.symbol).toBe('土');
+  });
+
+  it('lowers the score of missing and extra strokes', () => {
+    const score = (strokes: Point[][]) =>
+      recognizeCharacter(strokes, [tu])[0].score;
+    const complete = score(trace(tuData));
+    expect(score(trace(tuData, [0, 1]))).toBeLessThan(complete);
+    expect(
+      score([...trace(tuData), line([100, 900], [900, 900])])
+    ).toBeLessThan(complete);
+  });
+});
+
+describe('validateCharData', () => {
+  /** Returns the issues reported for the data */
+  const getIssues = (data: unknown) => {
+    try {
+      validateCharData('十', data);
+    } catch (error) {
+      expect(error).toBeInstanceOf(CharacterDataInvalidError);
+      return (error as CharacterDataInvalidError).issues;
+    }
+    return [];
+  };
+
+  it('accepts valid data', () => {
+    expect(
+      getIssues({ ...shiData, radStrokes: [0], matches: [[0], null] })
+    ).toEqual([]);
+  });
+
+  it('reports every issue found', () => {
+    expect(
+      getIssues({ ...shiData, medians: [shiData.medians[0]], radStrokes: [2] })
+    ).toEqual([
+      '`medians` has 1 entries but `strokes` has 2',
+      '`radStrokes` must only contain valid stroke indexes',
+    ]);
+    expect(getIssues(null)).toEqual(['data is not an object']);
+  });
+
+  it('rejects invalid stroke matches', () => {
+    expect(getIssues({ ...shiData, matches: [[0]] })).toEqual([
+      '`matches` must have one entry per stroke',
+    ]);
+    expect(getIssues({ ...shiData, matches: [[0], ['a']] })).toEqual([
+      '`matches` must only contain index paths or null',
+    ]);
+  });
+});
+
+describe('parseCharData', () => {
+  // 好 from makemeahanzi: 女 (the radical) is drawn first, then 子
+  const [horizontal] = shiData.medians;
+  const haoData: CharacterJson = {
+    strokes: Array(6).fill('M 0 0 L 100 100'),
+    medians: Array(6).fill(horizontal),
+    radStrokes: [0, 1, 2],
+    radical: '女',
+    decomposition: '⿰女子',
+    matches: [[0], [0], [0], [1], [1], null],
+  };
+
+  it('groups strokes by component', () => {
+    const hao = parseCharData('好', haoData);
+    expect(hao.decomposition).toBe('⿰女子');
+    expect(hao.components).toEqual([
+      { character: '女', path: [0], strokeNums: [0, 1, 2], isRadical: true },
+      { character: '子', path: [1], strokeNums: [3, 4], isRadical: false },
+    ]);
+    expect(hao.strokes.map((stroke) => stroke.componentIndex)).toEqual([
+      0,
+      0,
+      0,
+      1,
+      1,
+      null,
+    ]);
+    expect(hao.getComponentForStroke(3)?.character).toBe('子');
+    expect(
+      hao.getComponentStrokes(1).map((stroke) => stroke.strokeNum)
+    ).toEqual([3, 4]);
+  });
+
+  it('exposes the radical', () => {
+    expect(parseCharData('好', haoData).radical).toEqual({
+      character: '女',
+      strokeNums: [0, 1, 2],
+    });
+    // Without the radical character, it's found from the radical strokes
+    const { radical, ...withoutRadical } = haoData;
+    expect(parseCharData('好', withoutRadical).radical).toEqual({
+      character: '女',
+      strokeNums: [0, 1, 2],
+    });
+  });
+
+  it('assigns strokes matched to compound components to their first leaf', () => {
+    const data: CharacterJson = {
+      ...haoData,
+      radStrokes: undefined,
+      radical: undefined,
+      decomposition: '⿰女⿱子子',
+      matches: [[0], [0], [0], [1], [1, 1], [1, 1]],
+    };
+    expect(
+      parseCharData('好', data).components.map(
+        (component) => component.strokeNums
+      )
+    ).toEqual([[0, 1, 2], [3], [4, 5]]);
+  });
+
+  it('leaves characters without a decomposition without components', () => {
+    expect(shi.components).toEqual([]);
+    expect(shi.radical).toBeUndefined();
+  });
+});
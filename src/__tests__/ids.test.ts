@@ -0,0 +1,40 @@
+import { getIdsComponentPaths, getIdsNode, parseIds } from '../ids';
+
+describe('parseIds', () => {
+  it('parses nested sequences', () => {
+    expect(parseIds('⿰女子')).toEqual({
+      type: 'operator',
+      operator: '⿰',
+      children: [
+        { type: 'component', character: '女' },
+        { type: 'component', character: '子' },
+      ],
+    });
+  });
+
+  it('returns null for incomplete sequences', () => {
+    expect(parseIds('⿰女')).toBeNull();
+    expect(parseIds('')).toBeNull();
+  });
+});
+
+describe('getIdsNode', () => {
+  it('follows child indexes', () => {
+    const tree = parseIds('⿱⿰木木土')!;
+    expect(getIdsNode(tree, [0, 1])).toEqual({
+      type: 'component',
+      character: '木',
+    });
+    expect(getIdsNode(tree, [1, 0])).toBeUndefined();
+  });
+});
+
+describe('getIdsComponentPaths', () => {
+  it('lists components depth first', () => {
+    expect(getIdsComponentPaths(parseIds('⿱⿰木木土')!)).toEqual([
+      { character: '木', path: [0, 0] },
+      { character: '木', path: [0, 1] },
+      { character: '土', path: [1] },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { CharacterDataInvalidError } from '../errors';
+import {
+  convertKanjiVG,
+  createKanjiVGLoader,
+  getKanjiVGFileName,
+} from '../importers';
+
+const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="109" height="109" viewBox="0 0 109 109">
+<g id="kvg:StrokePaths_05341">
+<g id="kvg:05341" kvg:element="十" kvg:radical="general">
+  <path id="kvg:05341-s1" kvg:type="㇐" d="M10,50L90,50" />
+  <path id="kvg:05341-s2" kvg:type="㇑" d="M50,10L50,95" />
+</g>
+</g>
+</svg>`;
+
+describe('convertKanjiVG', () => {
+  it('converts centreline strokes to outlines and medians', () => {
+    const { character, data } = convertKanjiVG(svg);
+    expect(character).toBe('十');
+    expect(data.strokes).toHaveLength(2);
+    expect(data.radStrokes).toEqual([0, 1]);
+
+    // Flipped to y pointing up and scaled from 109 to 1024 units
+    const [horizontal, vertical] = data.medians;
+    expect(horizontal[0][0]).toBeCloseTo((10 * 1024) / 109, -1);
+    expect(horizontal[0][1]).toBeCloseTo(900 - (50 * 1024) / 109, -1);
+    expect(horizontal[horizontal.length - 1][0]).toBeGreaterThan(800);
+    expect(vertical[0][1]).toBeGreaterThan(vertical[vertical.length - 1][1]);
+  });
+
+  it('only marks strokes of the chosen radical type', () => {
+    expect(convertKanjiVG(svg, { radicalType: 'tradit' }).data.radStrokes).toBe(
+      undefined
+    );
+  });
+
+  it('rejects files without strokes', () => {
+    expect(() => convertKanjiVG('<svg><g kvg:element="十"></g></svg>')).toThrow(
+      CharacterDataInvalidError
+    );
+  });
+});
+
+describe('getKanjiVGFileName', () => {
+  it('pads the hexadecimal code point', () => {
+    expect(getKanjiVGFileName('字')).toBe('05b57.svg');
+  });
+});
+
+describe('createKanjiVGLoader', () => {
+  it('includes every conversion option in the loader id', () => {
+    const defaultId = createKanjiVGLoader().loaderId;
+    expect(
+      createKanjiVGLoader({
+        strokeWidth: 64,
+        medianTolerance: 12,
+        radicalType: 'general',
+      }).loaderId
+    ).toBe(defaultId);
+    expect(
+      new Set([
+        defaultId,
+        createKanjiVGLoader({ strokeWidth: 32 }).loaderId,
+        createKanjiVGLoader({ medianTolerance: 4 }).loaderId,
+        createKanjiVGLoader({ radicalType: 'nelson' }).loaderId,
+        createKanjiVGLoader({ baseUrl: 'https://a.test' }).loaderId,
+      ]).size
+    ).toBe(5);
+  });
+});
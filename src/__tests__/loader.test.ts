@@ -0,0 +1,173 @@
+import { shiData } from '../__fixtures__/characters';
+import { CharacterCache, DEFAULT_LOADER_ID } from '../character-cache';
+import {
+  CharacterDataInvalidError,
+  CharacterNotFoundError,
+  NetworkError,
+} from '../errors';
+import {
+  createCharDataLoader,
+  defaultCharDataLoader,
+  getLoadersId,
+  loadCharacterWithSource,
+  prefetchCharacters,
+  type CharDataLoader,
+} from '../loader';
+
+const withId = (loader: CharDataLoader, loaderId: string) =>
+  Object.assign(loader, { loaderId });
+
+describe('loadCharacterWithSource', () => {
+  it('only calls the loader on a cache miss', async () => {
+    const cache = new CharacterCache();
+    const loader = withId(
+      jest.fn(() => shiData),
+      'test'
+    );
+
+    const first = await loadCharacterWithSource('十', { loader, cache });
+    expect(first.source).toBe('test');
+    const second = await loadCharacterWithSource('十', { loader, cache });
+    expect(second.source).toBe('cache');
+    expect(second.character).toBe(first.character);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries failed loads', async () => {
+    const loader = withId(
+      jest
+        .fn<ReturnType<CharDataLoader>, Parameters<CharDataLoader>>()
+        .mockRejectedValueOnce(new NetworkError('十'))
+        .mockResolvedValueOnce(shiData),
+      'flaky'
+    );
+    const result = await loadCharacterWithSource('十', {
+      loader: [{ loader, retry: { retries: 1, baseDelay: 0 } }],
+      cache: new CharacterCache(),
+    });
+    expect(result.character.symbol).toBe('十');
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry characters that don't exist", async () => {
+    const loader = withId(
+      jest.fn(() => {
+        throw new CharacterNotFoundError('十');
+      }),
+      'missing'
+    );
+    await expect(
+      loadCharacterWithSource('十', {
+        loader: [{ loader, retry: { retries: 3, baseDelay: 0 } }],
+        cache: new CharacterCache(),
+      })
+    ).rejects.toBeInstanceOf(CharacterNotFoundError);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the next source', async () => {
+    const primary = withId(
+      jest.fn(() => {
+        throw new CharacterNotFoundError('十');
+      }),
+      'primary'
+    );
+    const fallback = withId(
+      jest.fn(() => shiData),
+      'fallback'
+    );
+    const result = await loadCharacterWithSource('十', {
+      loader: [primary, { loader: fallback, name: 'backup' }],
+      cache: new CharacterCache(),
+    });
+    expect(result.source).toBe('backup');
+    expect(primary).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects invalid data with the last error', async () => {
+    const loader = withId(() => ({ strokes: ['M 0 0'], medians: [] }), 'bad');
+    await expect(
+      loadCharacterWithSource('十', { loader, cache: new CharacterCache() })
+    ).rejects.toBeInstanceOf(CharacterDataInvalidError);
+  });
+
+  it('rejects straight away when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const loader = withId(
+      jest.fn(() => shiData),
+      'test'
+    );
+    await expect(
+      loadCharacterWithSource('十', {
+        loader,
+        cache: new CharacterCache(),
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(loader).not.toHaveBeenCalled();
+  });
+});
+
+describe('getLoadersId', () => {
+  it('uses one id for the default loader', () => {
+    expect(getLoadersId()).toBe(DEFAULT_LOADER_ID);
+    expect(getLoadersId(defaultCharDataLoader)).toBe(DEFAULT_LOADER_ID);
+    expect(
+      getLoadersId(createCharDataLoader({ baseUrl: 'https://a.test' }))
+    ).toBe('url:https://a.test/');
+  });
+
+  it('joins the ids of fallback sources', () => {
+    const a = withId(() => shiData, 'a');
+    const b = withId(() => shiData, 'b');
+    expect(getLoadersId([a, { loader: b }])).toBe('a|b');
+  });
+});
+
+describe('prefetchCharacters', () => {
+  it('reports failures without rejecting', async () => {
+    const loader = withId(
+      jest.fn((char: string) => {
+        if (char === '二') {
+          throw new CharacterNotFoundError(char);
+        }
+        return shiData;
+      }),
+      'test'
+    );
+    const onProgress = jest.fn();
+    const result = await prefetchCharacters('一二一', {
+      concurrency: 1,
+      loader,
+      cache: new CharacterCache(),
+      onProgress,
+    });
+    expect(result.loaded).toEqual(['一']);
+    expect(result.failed).toEqual([
+      { character: '二', error: expect.any(CharacterNotFoundError) },
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      character: '二',
+      loaded: 1,
+      failed: 1,
+      total: 2,
+    });
+  });
+
+  it('keeps going when onProgress throws', async () => {
+    const loader = withId(
+      jest.fn(() => shiData),
+      'test'
+    );
+    const result = await prefetchCharacters('一二', {
+      concurrency: 1,
+      loader,
+      cache: new CharacterCache(),
+      onProgress: () => {
+        throw new Error('progress failed');
+      },
+    });
+    expect(result.loaded).toEqual(['一', '二']);
+  });
+});
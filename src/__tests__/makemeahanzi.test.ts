@@ -0,0 +1,102 @@
+import { CharacterNotFoundError } from '../errors';
+import {
+  convertMakeMeAHanziEntry,
+  createMakeMeAHanziStore,
+  getRadicalStrokes,
+  parseMakeMeAHanziDictionary,
+  type MakeMeAHanziDictionaryEntry,
+} from '../importers';
+import { shiData } from '../__fixtures__/characters';
+
+const hao: MakeMeAHanziDictionaryEntry = {
+  character: '好',
+  decomposition: '⿰女子',
+  radical: '女',
+  matches: [[0], [0], [0], [1], [1], [1]],
+};
+
+const graphicsLine = (character: string) =>
+  JSON.stringify({ character, ...shiData });
+
+describe('parseMakeMeAHanziDictionary', () => {
+  it('parses every non-empty line', () => {
+    const entries = parseMakeMeAHanziDictionary(
+      `${JSON.stringify(hao)}\n\n${JSON.stringify({ character: '十' })}\n`
+    );
+    expect(Array.from(entries.keys())).toEqual(['好', '十']);
+    expect(entries.get('好')).toEqual(hao);
+  });
+
+  it('rejects lines without a character', () => {
+    expect(() => parseMakeMeAHanziDictionary('{"radical":"女"}')).toThrow(
+      'line 1 has no character'
+    );
+  });
+});
+
+describe('getRadicalStrokes', () => {
+  it('uses the strokes matched to the radical component', () => {
+    expect(getRadicalStrokes(hao, 6)).toEqual([0, 1, 2]);
+  });
+
+  it('uses every stroke of characters that are radicals themselves', () => {
+    expect(getRadicalStrokes({ character: '十', radical: '十' }, 2)).toEqual([
+      0, 1,
+    ]);
+  });
+
+  it("returns undefined when the radical can't be located", () => {
+    expect(getRadicalStrokes({ ...hao, radical: '口' }, 6)).toBeUndefined();
+    expect(
+      getRadicalStrokes({ ...hao, matches: undefined }, 6)
+    ).toBeUndefined();
+    expect(getRadicalStrokes({ character: '好' }, 6)).toBeUndefined();
+  });
+});
+
+describe('convertMakeMeAHanziEntry', () => {
+  it('copies the graphics and dictionary data', () => {
+    const data = convertMakeMeAHanziEntry(
+      { character: '十', ...shiData },
+      { character: '十', radical: '十', matches: [null, null] }
+    );
+    expect(data).toEqual({
+      ...shiData,
+      radStrokes: [0, 1],
+      radical: '十',
+      matches: [null, null],
+    });
+  });
+
+  it('drops stroke matches that disagree with the stroke count', () => {
+    const data = convertMakeMeAHanziEntry(
+      { character: '十', ...shiData },
+      { character: '十', matches: [null] }
+    );
+    expect(data.matches).toBeUndefined();
+  });
+});
+
+describe('createMakeMeAHanziStore', () => {
+  it('only parses entries when they are requested', () => {
+    const parse = jest.spyOn(JSON, 'parse');
+    const store = createMakeMeAHanziStore(
+      [graphicsLine('十'), graphicsLine('一')].join('\n')
+    );
+    parse.mockClear();
+
+    expect(store.characters()).toEqual(['十', '一']);
+    expect(store.get('十')?.strokes).toEqual(shiData.strokes);
+    expect(parse).toHaveBeenCalledTimes(1);
+    parse.mockRestore();
+  });
+
+  it('provides a persistable loader', () => {
+    const store = createMakeMeAHanziStore(graphicsLine('十'), {
+      dictionary: JSON.stringify({ character: '十', radical: '十' }),
+    });
+    expect(store.loader.loaderId).toBe('store:makemeahanzi');
+    expect(store.loader('十')).toMatchObject({ radStrokes: [0, 1] });
+    expect(() => store.loader('二')).toThrow(CharacterNotFoundError);
+  });
+});
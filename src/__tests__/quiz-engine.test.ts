@@ -0,0 +1,440 @@
+import {
+  positioner,
+  scribble,
+  shi,
+  shiData,
+  traceStroke,
+  tu,
+  tuData,
+} from '../__fixtures__/characters';
+import { QuizEngine } from '../quiz-engine';
+import type { QuizSnapshot, QuizSummary } from '../types';
+
+const createEngine = (
+  options: ConstructorParameters<typeof QuizEngine>[2] = {}
+) =>
+  new QuizEngine(shi, positioner, { highlightOnComplete: false, ...options });
+
+describe('QuizEngine', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('strict stroke order', () => {
+    it('accepts the strokes in order and completes', () => {
+      const onComplete = jest.fn();
+      const onCorrectStroke = jest.fn();
+      const engine = createEngine({ onComplete, onCorrectStroke });
+      engine.start();
+
+      expect(engine.check(traceStroke(shiData, 0))?.isCorrect).toBe(true);
+      expect(engine.getState().index).toBe(1);
+      expect(engine.check(traceStroke(shiData, 1))?.isCorrect).toBe(true);
+
+      expect(onCorrectStroke).toHaveBeenCalledTimes(2);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(onComplete.mock.calls[0][0]).toMatchObject({
+        character: '十',
+        totalMistakes: 0,
+        orderViolations: 0,
+      });
+      expect(engine.getState().active).toBe(false);
+    });
+
+    it('counts a later stroke drawn first as a mistake', () => {
+      const onMistake = jest.fn();
+      const engine = createEngine({ onMistake });
+      engine.start();
+
+      const result = engine.check(traceStroke(shiData, 1));
+      expect(result?.isCorrect).toBe(false);
+      expect(result?.strokeData.grading).not.toBeNull();
+      expect(onMistake).toHaveBeenCalledTimes(1);
+      expect(engine.getState()).toMatchObject({ index: 0, mistakes: { 0: 1 } });
+    });
+
+    it('accepts backwards strokes only when asked to', () => {
+      const engine = createEngine();
+      engine.start();
+      const result = engine.check(traceStroke(shiData, 0, true));
+      expect(result?.isCorrect).toBe(false);
+      expect(result?.strokeData.isBackwards).toBe(true);
+
+      engine.start({ acceptBackwardsStrokes: true });
+      expect(engine.check(traceStroke(shiData, 0, true))?.isCorrect).toBe(true);
+      expect(engine.getState().backwardsStrokes).toBe(1);
+    });
+
+    it('starts from quizStartStrokeNum', () => {
+      const engine = createEngine();
+      engine.start({ quizStartStrokeNum: 1 });
+      expect(engine.getState()).toMatchObject({ index: 1, drawnStrokes: [0] });
+      expect(engine.check(traceStroke(shiData, 1))?.isCorrect).toBe(true);
+      expect(engine.getState().active).toBe(false);
+    });
+
+    it('accepts strokes joined in one gesture when maxJoinedStrokes allows it', () => {
+      const engine = createEngine({ maxJoinedStrokes: 2 });
+      engine.start();
+      const result = engine.check([
+        ...traceStroke(shiData, 0),
+        ...traceStroke(shiData, 1),
+      ]);
+      expect(result?.isCorrect).toBe(true);
+      expect(result?.strokeData.joinedStrokes).toEqual([0, 1]);
+      expect(engine.getSummary().joinedStrokes).toEqual([[0, 1]]);
+      expect(engine.getState().active).toBe(false);
+    });
+  });
+
+  describe('free stroke order', () => {
+    it('accepts strokes in any order and counts order violations', () => {
+      const onComplete = jest.fn();
+      const engine = createEngine({ strokeOrder: 'free', onComplete });
+      engine.start();
+
+      const result = engine.check(traceStroke(shiData, 1));
+      expect(result?.isCorrect).toBe(true);
+      expect(result?.strokeData).toMatchObject({
+        strokeNum: 1,
+        isOutOfOrder: true,
+      });
+      expect(engine.getState().index).toBe(0);
+
+      engine.check(traceStroke(shiData, 0));
+      expect(onComplete.mock.calls[0][0]).toMatchObject({
+        orderViolations: 1,
+        totalMistakes: 0,
+      });
+    });
+  });
+
+  describe('exam mode', () => {
+    it('moves on after a wrong stroke and scores the exam', () => {
+      const onComplete = jest.fn();
+      const engine = createEngine({ exam: true, onComplete });
+      engine.start();
+
+      expect(engine.check(scribble())?.isCorrect).toBe(false);
+      expect(engine.getState()).toMatchObject({ index: 1, failedStrokes: [0] });
+      engine.check(traceStroke(shiData, 1));
+
+      const summary = onComplete.mock.calls[0][0];
+      expect(summary.failedStrokes).toEqual([0]);
+      expect(summary.exam.passed).toBe(false);
+      expect(summary.exam.score).toBeGreaterThan(0);
+      expect(summary.exam.score).toBeLessThan(summary.exam.passingScore);
+    });
+
+    it("doesn't reveal strokes", () => {
+      const engine = createEngine({ exam: true });
+      engine.start();
+      engine.revealStroke();
+      expect(engine.getState()).toMatchObject({
+        reveal: null,
+        revealedStrokes: 0,
+      });
+    });
+  });
+
+  describe('freehand mode', () => {
+    it('grades the character once every stroke has been drawn', () => {
+      const onComplete = jest.fn();
+      const engine = createEngine({ freehand: true, onComplete });
+      engine.start();
+
+      expect(engine.check(traceStroke(shiData, 1))).toBeNull();
+      expect(engine.getState().freehandStrokes).toHaveLength(1);
+      engine.check(traceStroke(shiData, 0));
+
+      const freehand = (onComplete.mock.calls[0][0] as QuizSummary).freehand!;
+      expect(freehand.strokes.map((stroke) => stroke.status)).toEqual([
+        'correct',
+        'correct',
+      ]);
+      // Stroke 1 was drawn before stroke 0
+      expect(freehand.strokes[1].isOutOfOrder).toBe(true);
+      expect(freehand.isCorrect).toBe(false);
+    });
+
+    it('waits for finish() when gradeOnStrokeCount is off', () => {
+      const engine = createEngine({
+        freehand: { gradeOnStrokeCount: false },
+      });
+      engine.start();
+      engine.check(traceStroke(shiData, 0));
+      engine.check(traceStroke(shiData, 1));
+      expect(engine.getState().active).toBe(true);
+
+      const result = engine.finish();
+      expect(result?.isCorrect).toBe(true);
+      expect(engine.getState().active).toBe(false);
+    });
+
+    it('undoes the last drawn stroke', () => {
+      const engine = createEngine({ freehand: true });
+      engine.start();
+      engine.check(traceStroke(shiData, 0));
+      expect(engine.undo()).toBe(true);
+      expect(engine.getState()).toMatchObject({
+        freehandStrokes: [],
+        undos: 1,
+      });
+      expect(engine.undo()).toBe(false);
+    });
+  });
+
+  describe('quiz actions', () => {
+    it('skips the current stroke', () => {
+      const onSkip = jest.fn();
+      const engine = createEngine();
+      engine.on('skip', onSkip);
+      engine.start();
+      engine.skipStroke();
+
+      expect(onSkip).toHaveBeenCalledWith({ strokeNum: 0 });
+      expect(engine.getState()).toMatchObject({
+        index: 1,
+        drawnStrokes: [0],
+        skippedStrokes: [0],
+      });
+    });
+
+    it('undoes everything a stroke recorded', () => {
+      const engine = new QuizEngine(tu, positioner, {
+        exam: true,
+        highlightOnComplete: false,
+      });
+      engine.start();
+      engine.check(scribble());
+      expect(engine.getState()).toMatchObject({
+        failedStrokes: [0],
+        mistakes: { 0: 1 },
+      });
+
+      expect(engine.undo()).toBe(true);
+      expect(engine.getState()).toMatchObject({
+        index: 0,
+        drawnStrokes: [],
+        failedStrokes: [],
+        mistakes: {},
+        userStrokes: [],
+        undos: 1,
+      });
+      expect(engine.undo()).toBe(false);
+    });
+
+    it('undoes strokes joined in one gesture together', () => {
+      const engine = new QuizEngine(tu, positioner, {
+        maxJoinedStrokes: 2,
+        highlightOnComplete: false,
+      });
+      engine.start();
+      engine.check([...traceStroke(tuData, 0), ...traceStroke(tuData, 1)]);
+      expect(engine.getState().drawnStrokes).toEqual([0, 1]);
+
+      engine.undo();
+      expect(engine.getState()).toMatchObject({
+        index: 0,
+        drawnStrokes: [],
+        joinedStrokes: [],
+        userStrokes: [],
+      });
+    });
+
+    it('rolls back order violations in free stroke order', () => {
+      const engine = new QuizEngine(tu, positioner, {
+        strokeOrder: 'free',
+        highlightOnComplete: false,
+      });
+      engine.start();
+      engine.check(traceStroke(tuData, 2));
+      expect(engine.getState().orderViolations).toBe(1);
+
+      engine.undo();
+      expect(engine.getState()).toMatchObject({
+        orderViolations: 0,
+        drawnStrokes: [],
+      });
+    });
+
+    it("doesn't undo strokes before quizStartStrokeNum", () => {
+      const engine = createEngine();
+      engine.start({ quizStartStrokeNum: 1 });
+      expect(engine.undo()).toBe(false);
+    });
+
+    it('restarts with the same options', () => {
+      const onComplete = jest.fn();
+      const engine = createEngine({ onComplete });
+      engine.start({ strokeOrder: 'free' });
+      engine.check(traceStroke(shiData, 1));
+      engine.restart();
+
+      expect(engine.getState()).toMatchObject({
+        active: true,
+        drawnStrokes: [],
+        restarts: 1,
+      });
+      expect(engine.getState().params?.strokeOrder).toBe('free');
+    });
+  });
+
+  describe('serialize and restore', () => {
+    it('resumes a quiz from a snapshot', () => {
+      const engine = createEngine();
+      engine.start({ leniency: 1.5 });
+      engine.check(scribble());
+      engine.check(traceStroke(shiData, 0));
+      const snapshot = JSON.parse(JSON.stringify(engine.serialize()));
+
+      const onComplete = jest.fn();
+      const restored = createEngine();
+      expect(restored.restore(snapshot, { onComplete })).toBe(true);
+      expect(restored.getState()).toMatchObject({
+        index: 1,
+        drawnStrokes: [0],
+        mistakes: { 0: 1 },
+      });
+      expect(restored.getState().params?.leniency).toBe(1.5);
+
+      restored.check(traceStroke(shiData, 1));
+      expect(onComplete.mock.calls[0][0].totalMistakes).toBe(1);
+    });
+
+    it('can undo strokes drawn before the snapshot', () => {
+      const engine = createEngine();
+      engine.start();
+      engine.check(traceStroke(shiData, 0));
+      const restored = createEngine();
+      restored.restore(engine.serialize()!);
+
+      expect(restored.undo()).toBe(true);
+      expect(restored.getState().drawnStrokes).toEqual([]);
+    });
+
+    it('rejects snapshots of other characters and unknown versions', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const engine = createEngine();
+      engine.start();
+      const snapshot = engine.serialize()!;
+
+      expect(new QuizEngine(tu, positioner).restore(snapshot)).toBe(false);
+      expect(
+        createEngine().restore({
+          ...snapshot,
+          version: 2,
+        } as unknown as QuizSnapshot)
+      ).toBe(false);
+      jest.mocked(console.warn).mockRestore();
+    });
+  });
+
+  describe('time limits', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    it('counts a mistake when a stroke runs out of time, then restarts its timer', () => {
+      const onStrokeTimeout = jest.fn();
+      const engine = createEngine({ strokeTimeLimit: 1000, onStrokeTimeout });
+      engine.start();
+      expect(engine.timerStore.getState().strokeTimeRemaining).toBe(1000);
+
+      jest.advanceTimersByTime(500);
+      expect(engine.timerStore.getState().strokeTimeRemaining).toBe(500);
+      jest.advanceTimersByTime(500);
+
+      expect(onStrokeTimeout).toHaveBeenCalledWith({ strokeNum: 0 });
+      expect(engine.getState()).toMatchObject({
+        mistakes: { 0: 1 },
+        strokeTimeouts: 1,
+      });
+      expect(engine.timerStore.getState().strokeTimeRemaining).toBe(1000);
+      engine.stop();
+    });
+
+    it('fails the stroke in exam mode', () => {
+      const engine = createEngine({ exam: true, strokeTimeLimit: 1000 });
+      engine.start();
+      jest.advanceTimersByTime(1000);
+      expect(engine.getState()).toMatchObject({
+        index: 1,
+        failedStrokes: [0],
+      });
+      engine.stop();
+    });
+
+    it('ends the quiz when the quiz runs out of time', () => {
+      const onQuizTimeout = jest.fn();
+      const onComplete = jest.fn();
+      const engine = createEngine({
+        quizTimeLimit: 2000,
+        onQuizTimeout,
+        onComplete,
+      });
+      engine.start();
+      engine.check(traceStroke(shiData, 0));
+      jest.advanceTimersByTime(2000);
+
+      expect(onComplete).not.toHaveBeenCalled();
+      expect(onQuizTimeout.mock.calls[0][0]).toMatchObject({
+        timedOut: true,
+        unfinishedStrokes: [1],
+      });
+      expect(engine.getState().active).toBe(false);
+    });
+
+    it('emits the timeout before grading a freehand quiz', () => {
+      const calls: string[] = [];
+      const engine = createEngine({
+        freehand: true,
+        quizTimeLimit: 1000,
+        onQuizTimeout: () => calls.push('onQuizTimeout'),
+        onComplete: (summary) =>
+          calls.push(`onComplete:${summary.freehand?.isCorrect}`),
+      });
+      engine.on('quizTimeout', () => calls.push('quizTimeout'));
+      engine.start();
+      engine.check(traceStroke(shiData, 0));
+      jest.advanceTimersByTime(1000);
+
+      expect(calls).toEqual([
+        'onQuizTimeout',
+        'quizTimeout',
+        'onComplete:false',
+      ]);
+    });
+
+    it("doesn't update the quiz state as the timer ticks", () => {
+      const engine = createEngine({ quizTimeLimit: 5000 });
+      const listener = jest.fn();
+      engine.start();
+      engine.subscribe(listener);
+      jest.advanceTimersByTime(1000);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(engine.timerStore.getState().quizTimeRemaining).toBe(4000);
+      engine.stop();
+    });
+  });
+
+  describe('completion flash', () => {
+    it('ends the flash after highlightCompleteDuration', () => {
+      jest.useFakeTimers();
+      const onHighlightComplete = jest.fn();
+      const engine = new QuizEngine(shi, positioner, {
+        highlightCompleteDuration: 500,
+        onHighlightComplete,
+      });
+      engine.start();
+      engine.check(traceStroke(shiData, 0));
+      engine.check(traceStroke(shiData, 1));
+      expect(engine.getState().highlightKey).not.toBeNull();
+
+      jest.advanceTimersByTime(500);
+      expect(engine.getState().highlightKey).toBeNull();
+      expect(onHighlightComplete).toHaveBeenCalledTimes(1);
+    });
+  });
+});
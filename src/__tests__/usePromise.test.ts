@@ -0,0 +1,50 @@
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { shiData } from '../__fixtures__/characters';
+import { CharacterCache } from '../character-cache';
+import { usePromise } from '../hooks/usePromise';
+import {
+  CACHE_SOURCE,
+  loadCharacterWithSource,
+  type CharDataLoader,
+} from '../loader';
+
+const loader: CharDataLoader = Object.assign(() => shiData, {
+  loaderId: 'test',
+});
+
+/** Wires `usePromise` up the way `useHanziWriter` does */
+const useCharacter = (cache: CharacterCache, character: string) =>
+  usePromise({
+    cacheKey: CharacterCache.getKey(character, 'test'),
+    promiseFn: (signal) =>
+      loadCharacterWithSource(character, { loader, cache, signal }),
+    getCached: () => {
+      const cached = cache.peek(character, 'test');
+      return cached && { character: cached, source: CACHE_SOURCE };
+    },
+  }).state;
+
+describe('usePromise', () => {
+  it('reports the source of a fresh load after the load caches it', async () => {
+    const cache = new CharacterCache();
+    const { result, rerender } = await renderHook(
+      (character: string) => useCharacter(cache, character),
+      { initialProps: '十' }
+    );
+
+    await waitFor(() => expect(result.current.status).toBe('resolved'));
+    await rerender('十');
+    expect(cache.peek('十', 'test')).toBeDefined();
+    expect(result.current).toMatchObject({ data: { source: 'test' } });
+  });
+
+  it('reports characters cached before the load as cache hits', async () => {
+    const cache = new CharacterCache();
+    await cache.set('十', shiData, 'test');
+    const { result } = await renderHook(() => useCharacter(cache, '十'));
+    expect(result.current).toMatchObject({
+      status: 'resolved',
+      data: { source: CACHE_SOURCE },
+    });
+  });
+});
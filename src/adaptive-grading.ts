@@ -0,0 +1,167 @@
+import type { StartQuizParams } from './quiz-engine';
+import type { QuizSummary } from './types';
+
+/** A learner's adaptive grading state. Plain JSON, so it can be persisted and passed back to `AdaptiveGrading` */
+export interface AdaptiveGradingState {
+  version: 1;
+  /** The leniency used for the learner's next quiz */
+  leniency: number;
+  /** Results of the most recent quizzes, oldest first */
+  history: {
+    /** Mistakes per stroke */
+    mistakeRate: number;
+    /** Share of accepted strokes that scored below `nearMissScore` */
+    nearMissRate: number;
+  }[];
+}
+
+export interface AdaptiveGradingOptions {
+  /** Leniency for learners without any history. Default: 1 */
+  initialLeniency?: number;
+  /** Default: 0.6 */
+  minLeniency?: number;
+  /** Default: 1.8 */
+  maxLeniency?: number;
+  /** How much the leniency changes after each quiz. Default: 0.1 */
+  step?: number;
+  /** Number of recent quizzes taken into account. Default: 5 */
+  windowSize?: number;
+  /** Mistakes per stroke above which grading is loosened. Grading is tightened below half of it. Default: 0.2 */
+  targetMistakeRate?: number;
+  /** Accepted strokes with a grading score below this are near misses. Default: 0.6 */
+  nearMissScore?: number;
+  /** Grading isn't tightened while more than this share of accepted strokes are near misses. Default: 0.25 */
+  maxNearMissRate?: number;
+  /** Called whenever the state changes, e.g. to persist it */
+  onChange?: (state: AdaptiveGradingState) => void;
+}
+
+/**
+ * Tunes a learner's `leniency` across quizzes: grading loosens while they make many mistakes,
+ * and tightens as they improve, within `minLeniency` and `maxLeniency`.
+ *
+ * @example
+ * const adaptive = new AdaptiveGrading(savedState, { onChange: save });
+ * writer.quiz.start(adaptive.getQuizParams({ onComplete }));
+ */
+export class AdaptiveGrading {
+  private state: AdaptiveGradingState;
+  private options: Required<Omit<AdaptiveGradingOptions, 'onChange'>> &
+    Pick<AdaptiveGradingOptions, 'onChange'>;
+
+  constructor(
+    state?: AdaptiveGradingState | null,
+    options: AdaptiveGradingOptions = {}
+  ) {
+    this.options = {
+      initialLeniency: 1,
+      minLeniency: 0.6,
+      maxLeniency: 1.8,
+      step: 0.1,
+      windowSize: 5,
+      targetMistakeRate: 0.2,
+      nearMissScore: 0.6,
+      maxNearMissRate: 0.25,
+      ...options,
+    };
+    // Ignore state from an unknown version rather than misreading it
+    this.state =
+      state?.version === 1
+        ? { ...state, leniency: this.clamp(state.leniency) }
+        : {
+            version: 1,
+            leniency: this.clamp(this.options.initialLeniency),
+            history: [],
+          };
+  }
+
+  private clamp(leniency: number) {
+    const { minLeniency, maxLeniency } = this.options;
+    return Math.min(maxLeniency, Math.max(minLeniency, leniency));
+  }
+
+  get leniency() {
+    return this.state.leniency;
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  /** Records a completed quiz and adjusts the leniency. Returns the new leniency */
+  recordQuiz(summary: QuizSummary) {
+    const {
+      step,
+      windowSize,
+      targetMistakeRate,
+      nearMissScore,
+      maxNearMissRate,
+    } = this.options;
+    const accepted = summary.userStrokes.filter((stroke) => stroke.isCorrect);
+    if (!accepted.length) {
+      return this.state.leniency;
+    }
+    const nearMisses = accepted.filter(
+      (stroke) => stroke.score !== null && stroke.score < nearMissScore
+    );
+    const history = [
+      ...this.state.history,
+      {
+        mistakeRate: summary.totalMistakes / accepted.length,
+        nearMissRate: nearMisses.length / accepted.length,
+      },
+    ].slice(-windowSize);
+
+    const average = (key: 'mistakeRate' | 'nearMissRate') =>
+      history.reduce((total, result) => total + result[key], 0) /
+      history.length;
+    const mistakeRate = average('mistakeRate');
+    const latest = history[history.length - 1];
+
+    // Only move when the latest quiz agrees with the recent trend, so the leniency doesn't overshoot
+    let { leniency } = this.state;
+    if (
+      mistakeRate > targetMistakeRate &&
+      latest.mistakeRate > targetMistakeRate
+    ) {
+      leniency += step;
+    } else if (
+      mistakeRate < targetMistakeRate / 2 &&
+      latest.mistakeRate < targetMistakeRate / 2 &&
+      average('nearMissRate') <= maxNearMissRate
+    ) {
+      leniency -= step;
+    }
+
+    this.state = {
+      version: 1,
+      // Avoid floating point drift, e.g. 1.2000000000000002
+      leniency: Math.round(this.clamp(leniency) * 1000) / 1000,
+      history,
+    };
+    this.options.onChange?.(this.state);
+    return this.state.leniency;
+  }
+
+  /** Clears the learner's history and resets the leniency */
+  reset() {
+    this.state = {
+      version: 1,
+      leniency: this.clamp(this.options.initialLeniency),
+      history: [],
+    };
+    this.options.onChange?.(this.state);
+  }
+
+  /** Returns quiz options using the learner's leniency, which record the quiz when it completes */
+  getQuizParams(params: StartQuizParams = {}): StartQuizParams {
+    return {
+      ...params,
+      leniency: this.state.leniency,
+      onComplete: (summary) => {
+        this.recordQuiz(summary);
+        params.onComplete?.(summary);
+      },
+    };
+  }
+}
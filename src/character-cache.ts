@@ -0,0 +1,408 @@
+import { parseCharData, type Character } from './hanzi-writer';
+import type { CharacterJson } from './types';
+
+/**
+ * Key-value storage the character cache persists raw character data to.
+ * Compatible with `@react-native-async-storage/async-storage`, and easily adapted to MMKV or similar stores.
+ */
+export interface CharacterCacheStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface CharacterCacheOptions {
+  /** Where raw character data is persisted. Default: in-memory storage */
+  storage?: CharacterCacheStorage;
+  /** Maximum number of characters to keep. The least recently used are evicted first. Default: 500 */
+  maxEntries?: number;
+  /** Time in milliseconds before an entry expires. Default: Infinity */
+  ttl?: number;
+  /** Entries stored under a different version are discarded. Bump this when your character data changes. Default: 1 */
+  version?: string | number;
+  /** Prefix used for every storage key. Default: 'hanzi-writer' */
+  prefix?: string;
+}
+
+type StoredEntry = {
+  version: string | number;
+  timestamp: number;
+  data: CharacterJson;
+};
+
+type MemoryEntry = {
+  value: Character;
+  timestamp: number;
+};
+
+type IndexEntry = {
+  key: string;
+  character: string;
+};
+
+/** Loader id used when no custom `loader` is passed to `useHanziWriter` */
+export const DEFAULT_LOADER_ID = 'default';
+
+/** Simple in-memory storage. Entries only live as long as the JS context. */
+export function createMemoryStorage(): CharacterCacheStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+// Ids of loaders without a `loaderId` start with this, and are only valid for the lifetime of the function
+const INSTANCE_LOADER_PREFIX = '~loader.';
+const instanceLoaderIds = new WeakMap<object, string>();
+let instanceLoaderCount = 0;
+let hasWarnedMissingLoaderId = false;
+
+/**
+ * Returns the id identifying a loader in cache keys: its `loaderId` property, or `'default'` without a loader.
+ * Other loaders are identified by the function itself, so their characters are only cached in memory (never persisted to storage).
+ * Give custom loaders a `loaderId` (or pass `loaderId` to `useHanziWriter`) to persist their characters.
+ */
+export function getLoaderId(
+  loader?: ((...args: any[]) => any) & { loaderId?: string }
+) {
+  if (!loader) {
+    return DEFAULT_LOADER_ID;
+  }
+  if (loader.loaderId) {
+    return loader.loaderId;
+  }
+  let id = instanceLoaderIds.get(loader);
+  if (!id) {
+    if (!hasWarnedMissingLoaderId) {
+      hasWarnedMissingLoaderId = true;
+      console.warn(
+        'A custom loader has no `loaderId`, so its characters will only be cached in memory. Pass a `loaderId` to persist them.'
+      );
+    }
+    id = `${INSTANCE_LOADER_PREFIX}${++instanceLoaderCount}`;
+    instanceLoaderIds.set(loader, id);
+  }
+  return id;
+}
+
+/** Whether a loader id (or combined id of several loaders) includes a loader only identified by its function */
+export function isInstanceLoaderId(loaderId: string) {
+  return loaderId
+    .split('|')
+    .some((id) => id.startsWith(INSTANCE_LOADER_PREFIX));
+}
+
+// Recency changes (from cache hits) are batched, and written at most this often
+const INDEX_SAVE_DELAY = 1000;
+
+/**
+ * Bounded (LRU) cache of character data. Parsed characters are kept in memory for synchronous lookups,
+ * while the raw `CharacterJson` is written to the provided storage so it survives app restarts.
+ * Characters from loaders without a `loaderId` are only kept in memory (see `getLoaderId`).
+ */
+export class CharacterCache {
+  private storage: CharacterCacheStorage;
+  private maxEntries: number;
+  private ttl: number;
+  private version: string | number;
+  private prefix: string;
+  /** Parsed characters, least recently used first */
+  private memory = new Map<string, MemoryEntry>();
+  /** Persisted entries, least recently used first. Lazily loaded from storage */
+  private index: IndexEntry[] | null = null;
+  private indexPromise: Promise<IndexEntry[]> | null = null;
+  /** Index changes are chained here, so concurrent reads and writes don't overwrite each other */
+  private indexQueue: Promise<unknown> = Promise.resolve();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: CharacterCacheOptions = {}) {
+    this.storage = options.storage || createMemoryStorage();
+    this.maxEntries = options.maxEntries ?? 500;
+    this.ttl = options.ttl ?? Infinity;
+    this.version = options.version ?? 1;
+    this.prefix = options.prefix ?? 'hanzi-writer';
+  }
+
+  static getKey(character: string, loaderId = DEFAULT_LOADER_ID) {
+    return `${loaderId}:${character}`;
+  }
+
+  /** Synchronously returns a character if it's already in memory */
+  peek(character: string, loaderId = DEFAULT_LOADER_ID) {
+    const key = CharacterCache.getKey(character, loaderId);
+    const entry = this.memory.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.memory.delete(key);
+    if (Date.now() - entry.timestamp > this.ttl) {
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.memory.set(key, entry);
+    if (!isInstanceLoaderId(loaderId)) {
+      this.promote(key).catch(() => {});
+    }
+    return entry.value;
+  }
+
+  /** Returns a character from memory or storage. Expired or outdated entries are removed. */
+  async get(
+    character: string,
+    loaderId = DEFAULT_LOADER_ID
+  ): Promise<Character | undefined> {
+    const inMemory = this.peek(character, loaderId);
+    if (inMemory || isInstanceLoaderId(loaderId)) {
+      return inMemory;
+    }
+
+    const key = CharacterCache.getKey(character, loaderId);
+    const index = await this.updateIndex((entries) => entries);
+    if (!index.some((entry) => entry.key === key)) {
+      return undefined;
+    }
+
+    const entry = await this.readEntry(key);
+    const value =
+      entry && this.isValid(entry) ? this.parse(character, entry.data) : null;
+    if (!entry || !value) {
+      await this.remove(key);
+      return undefined;
+    }
+
+    this.setMemory(key, { value, timestamp: entry.timestamp });
+    // Only the order changes, so the write can wait
+    await this.touch({ key, character }, false);
+    return value;
+  }
+
+  /** Stores the raw character data and returns the parsed character */
+  async set(
+    character: string,
+    data: CharacterJson,
+    loaderId = DEFAULT_LOADER_ID
+  ): Promise<Character> {
+    const key = CharacterCache.getKey(character, loaderId);
+    const value = parseCharData(character, data);
+    const timestamp = Date.now();
+    this.setMemory(key, { value, timestamp });
+    if (isInstanceLoaderId(loaderId)) {
+      return value;
+    }
+
+    const entry: StoredEntry = { version: this.version, timestamp, data };
+    try {
+      await this.storage.setItem(
+        this.getStorageKey(key),
+        JSON.stringify(entry)
+      );
+    } catch {
+      // Persisting is best effort (e.g. the storage is full); the character stays cached in memory
+      return value;
+    }
+    await this.touch({ key, character });
+    return value;
+  }
+
+  /** Removes a character from the cache. If no `loaderId` is provided, entries from every loader are removed. */
+  async invalidate(character: string, loaderId?: string) {
+    const index = await this.updateIndex((entries) => entries);
+    const matches = (entry: IndexEntry) =>
+      loaderId === undefined
+        ? entry.character === character
+        : entry.key === CharacterCache.getKey(character, loaderId);
+
+    const keys = new Set(index.filter(matches).map((entry) => entry.key));
+    if (loaderId === undefined) {
+      // Characters may be in memory without having been persisted yet
+      this.memory.forEach((entry, key) => {
+        if (entry.value.symbol === character) {
+          keys.add(key);
+        }
+      });
+    } else {
+      keys.add(CharacterCache.getKey(character, loaderId));
+    }
+
+    for (const key of keys) {
+      await this.remove(key);
+    }
+  }
+
+  /** Removes every character from the cache */
+  async clear() {
+    this.memory.clear();
+    await this.updateIndex(async (index) => {
+      await Promise.all(
+        index.map((entry) =>
+          this.storage.removeItem(this.getStorageKey(entry.key))
+        )
+      );
+      this.index = [];
+      await this.saveIndex();
+    });
+  }
+
+  /** Writes pending recency changes to storage immediately */
+  async flush() {
+    if (this.saveTimer === null) {
+      return;
+    }
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.updateIndex(() => this.saveIndex());
+  }
+
+  /** Parses stored data, returning null if it no longer validates */
+  private parse(character: string, data: CharacterJson) {
+    try {
+      return parseCharData(character, data);
+    } catch {
+      return null;
+    }
+  }
+
+  private getStorageKey(key: string) {
+    return `${this.prefix}:${key}`;
+  }
+
+  private isValid(entry: StoredEntry) {
+    return (
+      entry.version === this.version && Date.now() - entry.timestamp <= this.ttl
+    );
+  }
+
+  private setMemory(key: string, entry: MemoryEntry) {
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    while (this.memory.size > this.maxEntries) {
+      const oldestKey = this.memory.keys().next().value!;
+      this.memory.delete(oldestKey);
+    }
+  }
+
+  private async readEntry(key: string): Promise<StoredEntry | null> {
+    try {
+      const raw = await this.storage.getItem(this.getStorageKey(key));
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private loadIndex() {
+    if (this.index) {
+      return Promise.resolve(this.index);
+    }
+    if (!this.indexPromise) {
+      this.indexPromise = Promise.resolve(
+        this.storage.getItem(this.getStorageKey('index'))
+      )
+        .then((raw) => (raw ? (JSON.parse(raw) as IndexEntry[]) : []))
+        .catch(() => [])
+        .then((index) => {
+          // A write may have happened while the index was loading
+          this.index = this.index || index;
+          return this.index;
+        });
+    }
+    return this.indexPromise;
+  }
+
+  /** Runs `update` with the loaded index once every earlier index change has finished */
+  private updateIndex<T>(
+    update: (index: IndexEntry[]) => T | Promise<T>
+  ): Promise<T> {
+    const result = this.indexQueue.then(async () =>
+      update(await this.loadIndex())
+    );
+    this.indexQueue = result.catch(() => {});
+    return result;
+  }
+
+  private async saveIndex() {
+    if (this.saveTimer !== null) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await this.storage.setItem(
+      this.getStorageKey('index'),
+      JSON.stringify(this.index)
+    );
+  }
+
+  /** Saves the index after `INDEX_SAVE_DELAY`, batching changes made in the meantime */
+  private scheduleSave() {
+    if (this.saveTimer !== null) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.updateIndex(() => this.saveIndex()).catch(() => {});
+    }, INDEX_SAVE_DELAY);
+  }
+
+  /**
+   * Marks an entry as most recently used, evicting the oldest entries if over capacity.
+   * Unless entries were added or evicted, saving is deferred when `save` is false.
+   */
+  private touch(entry: IndexEntry, save = true) {
+    return this.updateIndex(async (current) => {
+      const isNew = !current.some((e) => e.key === entry.key);
+      const index = current.filter((e) => e.key !== entry.key);
+      index.push(entry);
+      const evicted = index.splice(
+        0,
+        Math.max(0, index.length - this.maxEntries)
+      );
+      this.index = index;
+      evicted.forEach(({ key }) => this.memory.delete(key));
+      try {
+        for (const { key } of evicted) {
+          await this.storage.removeItem(this.getStorageKey(key));
+        }
+        if (save || isNew || evicted.length) {
+          await this.saveIndex();
+        } else {
+          this.scheduleSave();
+        }
+      } catch {
+        // The in-memory index stays correct, and is written again on the next save
+      }
+    });
+  }
+
+  /** Marks a persisted entry as most recently used, deferring the save */
+  private promote(key: string) {
+    return this.updateIndex((current) => {
+      const i = current.findIndex((entry) => entry.key === key);
+      if (i === -1 || i === current.length - 1) {
+        return;
+      }
+      this.index = [
+        ...current.slice(0, i),
+        ...current.slice(i + 1),
+        current[i],
+      ];
+      this.scheduleSave();
+    });
+  }
+
+  private remove(key: string) {
+    this.memory.delete(key);
+    return this.updateIndex(async (index) => {
+      this.index = index.filter((entry) => entry.key !== key);
+      await this.storage.removeItem(this.getStorageKey(key));
+      await this.saveIndex();
+    });
+  }
+}
+
+/** Cache shared by every `useHanziWriter` that isn't given its own `cache` */
+export const defaultCharacterCache = new CharacterCache();
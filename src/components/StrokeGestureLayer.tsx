@@ -0,0 +1,107 @@
+import { useCallback, useMemo } from 'react';
+import { StyleSheet } from 'react-native';
+import RNSvg, { G, type PathProps } from 'react-native-svg';
+import Animated, {
+  useAnimatedProps,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+import { scheduleOnRN } from 'react-native-worklets';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import AnimatedPath from './AnimatedPath';
+import simplify from '../simplify';
+import { getPathString as getPathStringWorklet } from '../geometry-worklet';
+import type { Point } from '../types';
+
+interface StrokeGestureLayerProps {
+  /** Whether strokes can be drawn */
+  active: boolean;
+  size: number;
+  /** Called with the simplified points (in screen coordinates) of every completed stroke */
+  onStroke: (points: Point[]) => void;
+  pathProps?: PathProps;
+}
+
+/** Records strokes drawn by the user, previewing each stroke before it fades out */
+export function StrokeGestureLayer({
+  active,
+  size,
+  onStroke,
+  pathProps,
+}: StrokeGestureLayerProps) {
+  const points = useSharedValue<Point[]>([]);
+  const fade = useSharedValue(1);
+
+  const complete = useCallback(() => {
+    const simplifiedPoints = simplify(points.value, 1);
+    onStroke(simplifiedPoints);
+    // Fade out the user's stroke
+    fade.value = withTiming(0, { duration: 200 }, (finished) => {
+      // only reset the points if the animation finished
+      if (finished) {
+        points.value = [];
+      }
+    });
+  }, [onStroke]);
+
+  const panGesture = useMemo(
+    () =>
+      Gesture.Pan()
+        .enabled(active)
+        .minDistance(0)
+        .onBegin((event) => {
+          fade.value = 1;
+          points.value = [{ x: event.x, y: event.y }];
+        })
+        .onUpdate((event) => {
+          points.value = [...points.value, { x: event.x, y: event.y }];
+        })
+        .onEnd(() => {
+          if (points.value.length > 0) {
+            scheduleOnRN(complete);
+          }
+        })
+        .onFinalize((_event, success) => {
+          // Pan never activated (e.g. tap without drag) — clear the preview point
+          if (!success) {
+            points.value = [];
+          }
+        }),
+    [active, complete]
+  );
+
+  const animatedPathProps = useAnimatedProps(() => ({
+    d: getPathStringWorklet(points.value),
+    opacity: fade.value,
+  }));
+
+  return (
+    <GestureDetector gesture={panGesture}>
+      <Animated.View
+        pointerEvents={active ? 'auto' : 'none'}
+        style={[StyleSheet.absoluteFill, styles.userStrokeLayer]}
+      >
+        <RNSvg width={size} height={size} style={styles.transparentSvg}>
+          <G>
+            <AnimatedPath
+              animatedProps={animatedPathProps}
+              stroke="black"
+              fill="none"
+              strokeWidth="2"
+              {...pathProps}
+            />
+          </G>
+        </RNSvg>
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  userStrokeLayer: {
+    zIndex: 2,
+  },
+  transparentSvg: {
+    backgroundColor: 'transparent',
+  },
+});
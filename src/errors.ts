@@ -0,0 +1,55 @@
+/** Base class for every error thrown while loading a character */
+export class CharacterLoadError extends Error {
+  character: string;
+
+  constructor(character: string, message: string) {
+    super(message);
+    this.name = 'CharacterLoadError';
+    this.character = character;
+  }
+}
+
+/** The data source doesn't have the requested character */
+export class CharacterNotFoundError extends CharacterLoadError {
+  constructor(character: string) {
+    super(character, `Character "${character}" not found`);
+    this.name = 'CharacterNotFoundError';
+  }
+}
+
+/** The character data is missing, malformed or inconsistent */
+export class CharacterDataInvalidError extends CharacterLoadError {
+  /** A description of every problem found in the data */
+  issues: string[];
+
+  constructor(character: string, issues: string[]) {
+    super(
+      character,
+      `Invalid data for character "${character}": ${issues.join('; ')}`
+    );
+    this.name = 'CharacterDataInvalidError';
+    this.issues = issues;
+  }
+}
+
+/** The request for the character failed, or the server responded with an error */
+export class NetworkError extends CharacterLoadError {
+  /** HTTP status code, if the server responded */
+  status?: number;
+  cause?: unknown;
+
+  constructor(
+    character: string,
+    options: { status?: number; cause?: unknown } = {}
+  ) {
+    super(
+      character,
+      options.status
+        ? `Request for character "${character}" failed with status ${options.status}`
+        : `Request for character "${character}" failed`
+    );
+    this.name = 'NetworkError';
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
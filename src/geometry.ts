@@ -236,3 +236,64 @@ export const extendStart = (points: Point[], dist: number) => {
   extendedPoints.unshift(newStart);
   return extendedPoints;
 };
+
+/**
+ * build a closed outline around a centreline, with round caps at both ends.
+ * the inverse of what makemeahanzi medians are derived from
+ */
+export const outlineStroke = (points: Point[], width: number, capSteps = 6) => {
+  const halfWidth = width / 2;
+  const centreline = points.filter(
+    (point, i) => i === 0 || !equals(point, points[i - 1])
+  );
+  if (centreline.length < 2) {
+    const center = centreline[0];
+    return Array.from({ length: capSteps * 2 }, (_, i) => {
+      const theta = (Math.PI * i) / capSteps;
+      return {
+        x: center.x + Math.cos(theta) * halfWidth,
+        y: center.y + Math.sin(theta) * halfWidth,
+      };
+    });
+  }
+
+  const normals = centreline.map((_, i) => {
+    const prev = centreline[Math.max(0, i - 1)];
+    const next = centreline[Math.min(centreline.length - 1, i + 1)];
+    const tangent = subtract(next, prev);
+    const mag = magnitude(tangent) || 1;
+    return { x: -tangent.y / mag, y: tangent.x / mag };
+  });
+  const offset = (point: Point, normal: Point, dist: number) => ({
+    x: point.x + normal.x * dist,
+    y: point.y + normal.y * dist,
+  });
+  // sweep half a circle around the point, starting from the given normal
+  const cap = (point: Point, normal: Point) => {
+    const start = Math.atan2(normal.y, normal.x);
+    const capPoints: Point[] = [];
+    for (let i = 1; i < capSteps; i++) {
+      const theta = start - (Math.PI * i) / capSteps;
+      capPoints.push({
+        x: point.x + Math.cos(theta) * halfWidth,
+        y: point.y + Math.sin(theta) * halfWidth,
+      });
+    }
+    return capPoints;
+  };
+
+  const left = centreline.map((point, i) =>
+    offset(point, normals[i], halfWidth)
+  );
+  const right = centreline.map((point, i) =>
+    offset(point, normals[i], -halfWidth)
+  );
+  const lastIndex = centreline.length - 1;
+  const firstNormal = normals[0];
+  return [
+    ...left,
+    ...cap(centreline[lastIndex], normals[lastIndex]),
+    ...right.reverse(),
+    ...cap(centreline[0], { x: -firstNormal.x, y: -firstNormal.y }),
+  ];
+};
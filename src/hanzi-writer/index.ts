@@ -1,6 +1,16 @@
-import type { CharacterJson, Point, PositionerOptions } from '../types';
+import type {
+  CharacterJson,
+  FreehandResult,
+  GradingCriterion,
+  GradingProfile,
+  GradingProfileName,
+  Point,
+  PositionerOptions,
+  StrokeGrading,
+} from '../types';
 import {
   subtract,
+  magnitude,
   distance,
   length,
   cosineSimilarity,
@@ -9,6 +19,8 @@ import {
   normalizeCurve,
   rotate,
 } from '../geometry';
+import { CharacterDataInvalidError } from '../errors';
+import { getIdsComponentPaths, parseIds } from '../ids';
 
 function average(arr: number[]) {
   const sum = arr.reduce((acc, val) => val + acc, 0);
@@ -83,17 +95,21 @@ export class Stroke {
   points: Point[];
   strokeNum: number;
   isInRadical: boolean;
+  /** Index of the component (in `Character.components`) the stroke belongs to, if known */
+  componentIndex: number | null;
 
   constructor(
     path: string,
     points: Point[],
     strokeNum: number,
-    isInRadical = false
+    isInRadical = false,
+    componentIndex: number | null = null
   ) {
     this.path = path;
     this.points = points;
     this.strokeNum = strokeNum;
     this.isInRadical = isInRadical;
+    this.componentIndex = componentIndex;
   }
 
   getStartingPoint() {
@@ -134,38 +150,305 @@ export class Stroke {
   }
 }
 
-function generateStrokes({ radStrokes, strokes, medians }: CharacterJson) {
+export interface CharacterComponent {
+  /** The component, or '？' if it's unknown */
+  character: string;
+  /** Path to the component in the decomposition, e.g. `[1]` for 子 in `⿰女子` */
+  path: number[];
+  strokeNums: number[];
+  isRadical: boolean;
+}
+
+export interface CharacterRadical {
+  /** Unknown if the data only lists the radical strokes */
+  character?: string;
+  strokeNums: number[];
+}
+
+const isPathPrefix = (prefix: number[], path: number[]) =>
+  prefix.length <= path.length &&
+  prefix.every((index, depth) => path[depth] === index);
+
+/** Groups strokes by the leaf components of the decomposition, using the stroke matches */
+function generateComponents({
+  decomposition,
+  matches,
+  radical,
+  radStrokes,
+}: CharacterJson): CharacterComponent[] {
+  const tree = decomposition ? parseIds(decomposition) : null;
+  if (!tree) {
+    return [];
+  }
+  const components = getIdsComponentPaths(tree).map(
+    ({ character, path }): CharacterComponent => ({
+      character,
+      path,
+      strokeNums: [],
+      isRadical: false,
+    })
+  );
+  matches?.forEach((match, strokeNum) => {
+    if (!match) {
+      return;
+    }
+    // Matches may also point to a compound component, in which case the stroke goes to its first leaf
+    const component = components.find(
+      ({ path }) => isPathPrefix(path, match) || isPathPrefix(match, path)
+    );
+    component?.strokeNums.push(strokeNum);
+  });
+  components.forEach((component) => {
+    component.isRadical =
+      component.character === radical ||
+      (!!radStrokes?.length &&
+        component.strokeNums.length > 0 &&
+        component.strokeNums.every((strokeNum) =>
+          radStrokes.includes(strokeNum)
+        ));
+  });
+  return components;
+}
+
+function generateStrokes(
+  { radStrokes, strokes, medians }: CharacterJson,
+  components: CharacterComponent[]
+) {
   const isInRadical = (strokeNum: number) =>
     (radStrokes?.indexOf(strokeNum) ?? -1) >= 0;
+  const getComponentIndex = (strokeNum: number) => {
+    const index = components.findIndex((component) =>
+      component.strokeNums.includes(strokeNum)
+    );
+    return index >= 0 ? index : null;
+  };
   return strokes.map((path, index) => {
     const points = medians[index].map((pointData) => {
       const [x, y] = pointData;
       return { x, y };
     });
-    return new Stroke(path, points, index, isInRadical(index));
+    return new Stroke(
+      path,
+      points,
+      index,
+      isInRadical(index),
+      getComponentIndex(index)
+    );
   });
 }
 
 export class Character {
   symbol: string;
   strokes: Stroke[];
+  /** Ideographic Description Sequence, e.g. `⿰女子` for 好 */
+  decomposition?: string;
+  /** Leaf components of the decomposition, with the strokes that belong to them */
+  components: CharacterComponent[];
+  radical?: CharacterRadical;
 
-  constructor(symbol: string, strokes: Stroke[]) {
+  constructor(
+    symbol: string,
+    strokes: Stroke[],
+    details: {
+      decomposition?: string;
+      components?: CharacterComponent[];
+      radical?: CharacterRadical;
+    } = {}
+  ) {
     this.symbol = symbol;
     this.strokes = strokes;
+    this.decomposition = details.decomposition;
+    this.components = details.components || [];
+    this.radical = details.radical;
+  }
+
+  get strokeCount() {
+    return this.strokes.length;
+  }
+
+  getComponent(index: number): CharacterComponent | undefined {
+    return this.components[index];
+  }
+
+  /** Returns the component the stroke belongs to, if known */
+  getComponentForStroke(strokeNum: number): CharacterComponent | undefined {
+    const componentIndex = this.strokes[strokeNum]?.componentIndex;
+    return componentIndex === null || componentIndex === undefined
+      ? undefined
+      : this.components[componentIndex];
+  }
+
+  /** Returns the strokes of a component */
+  getComponentStrokes(index: number): Stroke[] {
+    const component = this.components[index];
+    return component
+      ? component.strokeNums.map((strokeNum) => this.strokes[strokeNum])
+      : [];
+  }
+}
+
+const isPoint = (point: unknown) =>
+  Array.isArray(point) &&
+  point.length >= 2 &&
+  Number.isFinite(point[0]) &&
+  Number.isFinite(point[1]);
+
+/** Checks that the data can be rendered and graded. Throws a `CharacterDataInvalidError` listing every issue found. */
+export function validateCharData(
+  symbol: string,
+  charJson: unknown
+): asserts charJson is CharacterJson {
+  if (!charJson || typeof charJson !== 'object') {
+    throw new CharacterDataInvalidError(symbol, ['data is not an object']);
+  }
+  const { strokes, medians, radStrokes, radical, decomposition, matches } =
+    charJson as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (!Array.isArray(strokes) || strokes.length === 0) {
+    issues.push('`strokes` must be a non-empty array');
+  } else if (strokes.some((path) => typeof path !== 'string' || !path)) {
+    issues.push('`strokes` must only contain path strings');
+  }
+
+  if (!Array.isArray(medians)) {
+    issues.push('`medians` must be an array');
+  } else {
+    if (Array.isArray(strokes) && medians.length !== strokes.length) {
+      issues.push(
+        `\`medians\` has ${medians.length} entries but \`strokes\` has ${strokes.length}`
+      );
+    }
+    medians.forEach((median: unknown, index) => {
+      if (!Array.isArray(median) || median.length < 2) {
+        issues.push(`median ${index} must have at least 2 points`);
+      } else if (!median.every(isPoint)) {
+        issues.push(`median ${index} contains an invalid point`);
+      }
+    });
+  }
+
+  if (radStrokes !== undefined) {
+    const strokeCount = Array.isArray(strokes) ? strokes.length : 0;
+    if (
+      !Array.isArray(radStrokes) ||
+      radStrokes.some(
+        (strokeNum) =>
+          !Number.isInteger(strokeNum) ||
+          strokeNum < 0 ||
+          strokeNum >= strokeCount
+      )
+    ) {
+      issues.push('`radStrokes` must only contain valid stroke indexes');
+    }
+  }
+
+  if (radical !== undefined && typeof radical !== 'string') {
+    issues.push('`radical` must be a string');
+  }
+
+  if (decomposition !== undefined && typeof decomposition !== 'string') {
+    issues.push('`decomposition` must be a string');
+  }
+
+  if (matches !== undefined) {
+    if (
+      !Array.isArray(matches) ||
+      (Array.isArray(strokes) && matches.length !== strokes.length)
+    ) {
+      issues.push('`matches` must have one entry per stroke');
+    } else if (
+      matches.some(
+        (match) =>
+          match !== null &&
+          (!Array.isArray(match) || !match.every(Number.isInteger))
+      )
+    ) {
+      issues.push('`matches` must only contain index paths or null');
+    }
+  }
+
+  if (issues.length) {
+    throw new CharacterDataInvalidError(symbol, issues);
   }
 }
 
 export function parseCharData(symbol: string, charJson: CharacterJson) {
-  const strokes = generateStrokes(charJson);
-  return new Character(symbol, strokes);
+  validateCharData(symbol, charJson);
+  const components = generateComponents(charJson);
+  const strokes = generateStrokes(charJson, components);
+  const radStrokes = strokes
+    .filter((stroke) => stroke.isInRadical)
+    .map((stroke) => stroke.strokeNum);
+  const radical =
+    charJson.radical || radStrokes.length
+      ? {
+          character:
+            charJson.radical ||
+            components.find((component) => component.isRadical)?.character,
+          strokeNums: radStrokes,
+        }
+      : undefined;
+  return new Character(symbol, strokes, {
+    decomposition: charJson.decomposition,
+    components,
+    radical,
+  });
 }
 
-const AVG_DIST_THRESHOLD = 350; // bigger = more lenient
-const COSINE_SIMILARITY_THRESHOLD = 0; // -1 to 1, smaller = more lenient
-const START_AND_END_DIST_THRESHOLD = 250; // bigger = more lenient
-const FRECHET_THRESHOLD = 0.4; // bigger = more lenient
-const MIN_LEN_THRESHOLD = 0.35; // smaller = more lenient
+const SHAPE_FIT_ROTATIONS = [
+  Math.PI / 16,
+  Math.PI / 32,
+  0,
+  (-1 * Math.PI) / 32,
+  (-1 * Math.PI) / 16,
+];
+
+/** Built-in grading profiles. `'standard'` is the default */
+export const gradingProfiles: Record<GradingProfileName, GradingProfile> = {
+  // Loose positioning for small hands and screens, with the standard shape matching
+  child: {
+    avgDistThreshold: 450,
+    startAndEndDistThreshold: 400,
+    frechetThreshold: 0.4,
+    minLenThreshold: 0.25,
+    cosineSimilarityThreshold: 0,
+    shapeFitRotations: SHAPE_FIT_ROTATIONS,
+  },
+  beginner: {
+    avgDistThreshold: 400,
+    startAndEndDistThreshold: 300,
+    frechetThreshold: 0.45,
+    minLenThreshold: 0.3,
+    cosineSimilarityThreshold: 0,
+    shapeFitRotations: SHAPE_FIT_ROTATIONS,
+  },
+  standard: {
+    avgDistThreshold: 350,
+    startAndEndDistThreshold: 250,
+    frechetThreshold: 0.4,
+    minLenThreshold: 0.35,
+    cosineSimilarityThreshold: 0,
+    shapeFitRotations: SHAPE_FIT_ROTATIONS,
+  },
+  exam: {
+    avgDistThreshold: 300,
+    startAndEndDistThreshold: 200,
+    frechetThreshold: 0.35,
+    minLenThreshold: 0.45,
+    cosineSimilarityThreshold: 0.2,
+    shapeFitRotations: [Math.PI / 32, 0, (-1 * Math.PI) / 32],
+  },
+};
+
+/** Resolves a profile name, or thresholds overriding the standard profile, to a full profile */
+export function getGradingProfile(
+  profile: GradingProfileName | Partial<GradingProfile> = 'standard'
+): GradingProfile {
+  return typeof profile === 'string'
+    ? gradingProfiles[profile]
+    : { ...gradingProfiles.standard, ...profile };
+}
 
 export interface StrokeMatchResultMeta {
   isStrokeBackwards: boolean;
@@ -174,6 +457,32 @@ export interface StrokeMatchResultMeta {
 export interface StrokeMatchResult {
   isMatch: boolean;
   meta: StrokeMatchResultMeta;
+  /** Why the stroke did or didn't match, or null if the drawn stroke was too short to grade */
+  grading: StrokeGrading | null;
+  /** The closest later stroke that the drawn stroke matches, if any. Also set when the expected stroke doesn't match, e.g. if the learner drew stroke 2 instead of stroke 0 */
+  competingStroke: { strokeNum: number; averageDistance: number } | null;
+}
+
+/** Returns the closest of `laterStrokes` that the points match, if any */
+function findCompetingStroke(
+  points: Point[],
+  laterStrokes: Stroke[],
+  options: MatchOptions
+): StrokeMatchResult['competingStroke'] {
+  let competingStroke: StrokeMatchResult['competingStroke'] = null;
+  for (const stroke of laterStrokes) {
+    const { isMatch, avgDist } = getMatchData(points, stroke, {
+      ...options,
+      checkBackwards: false,
+    });
+    if (isMatch && avgDist < (competingStroke?.averageDistance ?? Infinity)) {
+      competingStroke = {
+        strokeNum: stroke.strokeNum,
+        averageDistance: avgDist,
+      };
+    }
+  }
+  return competingStroke;
 }
 
 export function strokeMatches(
@@ -183,13 +492,19 @@ export function strokeMatches(
   options: {
     leniency?: number;
     isOutlineVisible?: boolean;
+    profile?: GradingProfileName | Partial<GradingProfile>;
   } = {}
 ): StrokeMatchResult {
   const strokes = character.strokes;
   const points = stripDuplicates(userStroke.points);
 
   if (points.length < 2) {
-    return { isMatch: false, meta: { isStrokeBackwards: false } };
+    return {
+      isMatch: false,
+      meta: { isStrokeBackwards: false },
+      grading: null,
+      competingStroke: null,
+    };
   }
 
   const {
@@ -198,58 +513,388 @@ export function strokeMatches(
     avgDist: avgDistOne,
   } = getMatchData(points, strokes[strokeNum], options);
 
-  if (!isMatchOne) {
-    return { isMatch: isMatchOne, meta };
-  }
-
   // if there is a better match among strokes the user hasn't drawn yet, the user probably drew the wrong stroke
-  const laterStrokes = strokes.slice(strokeNum + 1);
-  let closestMatchDist = avgDistOne;
+  const competingStroke = findCompetingStroke(
+    points,
+    strokes.slice(strokeNum + 1),
+    options
+  );
 
-  for (let i = 0; i < laterStrokes.length; i++) {
-    const { isMatch: isMatchTwo, avgDist: avgDistTwo } = getMatchData(
-      points,
-      laterStrokes[i],
-      { ...options, checkBackwards: false }
-    );
-    if (isMatchTwo && avgDistTwo < closestMatchDist) {
-      closestMatchDist = avgDistTwo;
-    }
+  if (!isMatchOne) {
+    return {
+      isMatch: isMatchOne,
+      meta,
+      grading: getGrading(points, strokes[strokeNum], options),
+      competingStroke,
+    };
   }
+
+  const closestMatchDist = Math.min(
+    avgDistOne,
+    competingStroke?.averageDistance ?? Infinity
+  );
   // if there's a better match, rather that returning false automatically, try reducing leniency instead
   // if leniency is already really high we can allow some similar strokes to pass
   if (closestMatchDist < avgDistOne) {
     // adjust leniency between 0.3 and 0.6 depending on how much of a better match the new match is
     const leniencyAdjustment =
       (0.6 * (closestMatchDist + avgDistOne)) / (2 * avgDistOne);
+    const adjustedOptions = {
+      ...options,
+      leniency: (options.leniency || 1) * leniencyAdjustment,
+    };
     const { isMatch: isMatchThree, meta } = getMatchData(
       points,
       strokes[strokeNum],
-      {
-        ...options,
-        leniency: (options.leniency || 1) * leniencyAdjustment,
-      }
+      adjustedOptions
     );
-    return { isMatch: isMatchThree, meta };
+    return {
+      isMatch: isMatchThree,
+      meta,
+      grading: getGrading(points, strokes[strokeNum], adjustedOptions),
+      competingStroke,
+    };
   }
-  return { isMatch: isMatchOne, meta };
+  return {
+    isMatch: isMatchOne,
+    meta,
+    grading: getGrading(points, strokes[strokeNum], options),
+    competingStroke,
+  };
 }
 
-const startAndEndMatches = (
-  points: Point[],
-  closestStroke: Stroke,
-  leniency: number
-) => {
-  const startingDist = distance(closestStroke.getStartingPoint(), points[0]);
-  const endingDist = distance(
-    closestStroke.getEndingPoint(),
-    points[points.length - 1]
-  );
-  return (
-    startingDist <= START_AND_END_DIST_THRESHOLD * leniency &&
-    endingDist <= START_AND_END_DIST_THRESHOLD * leniency
+/**
+ * Matches the user stroke against any of `strokeNums`, for quizzes where strokes can be drawn in any order.
+ * Returns the closest matching stroke, or the closest stroke that matches backwards if none match.
+ */
+export function matchAnyStroke(
+  userStroke: UserStroke,
+  character: Character,
+  strokeNums: number[],
+  options: {
+    leniency?: number;
+    isOutlineVisible?: boolean;
+    profile?: GradingProfileName | Partial<GradingProfile>;
+  } = {}
+): StrokeMatchResult & { strokeNum: number | null } {
+  const points = stripDuplicates(userStroke.points);
+  let best: {
+    isMatch: boolean;
+    meta: StrokeMatchResultMeta;
+    strokeNum: number;
+  } | null = null;
+  let bestDist = Infinity;
+
+  if (points.length >= 2) {
+    for (const strokeNum of strokeNums) {
+      const { isMatch, meta, avgDist } = getMatchData(
+        points,
+        character.strokes[strokeNum],
+        options
+      );
+      if (!isMatch && !meta.isStrokeBackwards) {
+        continue;
+      }
+      // Forward matches always beat backwards ones
+      const isBetter = best
+        ? isMatch === best.isMatch
+          ? avgDist < bestDist
+          : isMatch
+        : true;
+      if (isBetter) {
+        best = { isMatch, meta, strokeNum };
+        bestDist = avgDist;
+      }
+    }
+  }
+
+  if (!best) {
+    return {
+      isMatch: false,
+      meta: { isStrokeBackwards: false },
+      grading: null,
+      competingStroke: null,
+      strokeNum: null,
+    };
+  }
+  // Only the closest stroke is graded
+  return {
+    ...best,
+    grading: getGrading(points, character.strokes[best.strokeNum], options),
+    competingStroke: null,
+  };
+}
+
+export interface JoinedStrokeSegment {
+  strokeNum: number;
+  /** Index of the segment's first and last point in the drawn stroke's points */
+  start: number;
+  end: number;
+  grading: StrokeGrading;
+}
+
+// Limits the number of split points tried, so long gestures stay quick to segment
+const MAX_JOIN_SPLIT_POINTS = 16;
+
+/**
+ * Tries to split one drawn stroke into `strokeNums` (consecutive strokes drawn without lifting the finger).
+ * The movement between strokes is ignored. Returns the segments with the best total score, or null if the strokes can't all be matched.
+ */
+export function matchJoinedStrokes(
+  userStroke: UserStroke,
+  character: Character,
+  strokeNums: number[],
+  options: {
+    leniency?: number;
+    isOutlineVisible?: boolean;
+    profile?: GradingProfileName | Partial<GradingProfile>;
+  } = {}
+): JoinedStrokeSegment[] | null {
+  const { points } = userStroke;
+  const lastIndex = points.length - 1;
+  if (strokeNums.length < 2 || lastIndex < 2 * strokeNums.length - 1) {
+    return null;
+  }
+  const step = Math.max(1, Math.ceil(lastIndex / MAX_JOIN_SPLIT_POINTS));
+  const splitPoints: number[] = [];
+  for (let i = step; i < lastIndex; i += step) {
+    splitPoints.push(i);
+  }
+
+  const segmentMatches = new Map<string, StrokeGrading | null>();
+  const matchSegment = (start: number, end: number, strokeNum: number) => {
+    const key = `${start}.${end}.${strokeNum}`;
+    if (!segmentMatches.has(key)) {
+      const segmentPoints = stripDuplicates(points.slice(start, end + 1));
+      const stroke = character.strokes[strokeNum];
+      const isMatch =
+        segmentPoints.length >= 2 &&
+        getMatchData(segmentPoints, stroke, {
+          ...options,
+          checkBackwards: false,
+        }).isMatch;
+      // Only matching segments are graded, to pick the best split
+      segmentMatches.set(
+        key,
+        isMatch ? getGrading(segmentPoints, stroke, options) : null
+      );
+    }
+    return segmentMatches.get(key)!;
+  };
+
+  type Split = { score: number; segments: JoinedStrokeSegment[] };
+  const splits = new Map<string, Split | null>();
+  // The best way to draw strokeNums[i..] with the i-th stroke starting at or after `from`
+  const findSplit = (i: number, from: number): Split | null => {
+    const key = `${i}.${from}`;
+    if (splits.has(key)) {
+      return splits.get(key)!;
+    }
+    const isFirst = i === 0;
+    const isLast = i === strokeNums.length - 1;
+    const starts = isFirst ? [0] : splitPoints.filter((p) => p >= from);
+    let best: Split | null = null;
+    for (const start of starts) {
+      const ends = isLast ? [lastIndex] : splitPoints.filter((p) => p > start);
+      for (const end of ends) {
+        const grading = matchSegment(start, end, strokeNums[i]);
+        if (!grading) {
+          continue;
+        }
+        const rest: Split | null = isLast
+          ? { score: 0, segments: [] }
+          : findSplit(i + 1, end);
+        if (rest && grading.score + rest.score > (best?.score ?? -1)) {
+          best = {
+            score: grading.score + rest.score,
+            segments: [
+              { strokeNum: strokeNums[i], start, end, grading },
+              ...rest.segments,
+            ],
+          };
+        }
+      }
+    }
+    splits.set(key, best);
+    return best;
+  };
+
+  return findSplit(0, 0)?.segments ?? null;
+}
+
+/**
+ * Aligns strokes drawn for a whole character to the character's strokes, for grading after the character is written.
+ * Each stroke is paired with the drawn stroke that matches it best (matches first, then the closest remaining attempts),
+ * so strokes drawn out of order, missing strokes and extra strokes are all reported.
+ */
+export function alignStrokes(
+  userStrokes: Point[][],
+  character: Character,
+  options: {
+    leniency?: number;
+    isOutlineVisible?: boolean;
+    profile?: GradingProfileName | Partial<GradingProfile>;
+    acceptBackwardsStrokes?: boolean;
+  } = {}
+): FreehandResult {
+  type Pairing = {
+    userStroke: number;
+    strokeNum: number;
+    isMatch: boolean;
+    isBackwards: boolean;
+    grading: StrokeGrading;
+  };
+  const pairings: Pairing[] = [];
+  userStrokes.forEach((userPoints, userStroke) => {
+    const points = stripDuplicates(userPoints);
+    if (points.length < 2) {
+      return;
+    }
+    character.strokes.forEach((stroke) => {
+      const { isMatch, meta, avgDist } = getMatchData(points, stroke, options);
+      // Too far away to be an attempt at the stroke, so there's no need to grade it
+      if (
+        !isMatch &&
+        !meta.isStrokeBackwards &&
+        avgDist >= 2 * getThresholds(stroke, options).averageDistance
+      ) {
+        return;
+      }
+      pairings.push({
+        userStroke,
+        strokeNum: stroke.strokeNum,
+        isMatch,
+        isBackwards: meta.isStrokeBackwards,
+        grading: getGrading(points, stroke, options),
+      });
+    });
+  });
+
+  // Matches beat backwards matches, which beat strokes that didn't match
+  const rank = (pairing: Pairing) =>
+    pairing.isMatch ? 2 : pairing.isBackwards ? 1 : 0;
+  pairings.sort(
+    (a, b) => rank(b) - rank(a) || b.grading.score - a.grading.score
   );
-};
+
+  const aligned = new Map<number, Pairing>();
+  const alignedUserStrokes = new Set<number>();
+  for (const pairing of pairings) {
+    if (
+      aligned.has(pairing.strokeNum) ||
+      alignedUserStrokes.has(pairing.userStroke)
+    ) {
+      continue;
+    }
+    aligned.set(pairing.strokeNum, pairing);
+    alignedUserStrokes.add(pairing.userStroke);
+  }
+
+  const strokes = character.strokes.map(({ strokeNum }) => {
+    const pairing = aligned.get(strokeNum);
+    if (!pairing) {
+      return {
+        strokeNum,
+        status: 'missing' as const,
+        userStroke: null,
+        isOutOfOrder: false,
+        grading: null,
+      };
+    }
+    return {
+      strokeNum,
+      status: pairing.isMatch
+        ? ('correct' as const)
+        : pairing.isBackwards
+        ? ('backwards' as const)
+        : ('incorrect' as const),
+      userStroke: pairing.userStroke,
+      // Drawn before an earlier stroke
+      isOutOfOrder: [...aligned.values()].some(
+        (other) =>
+          other.strokeNum < strokeNum && other.userStroke > pairing.userStroke
+      ),
+      grading: pairing.grading,
+    };
+  });
+  const extraStrokes = userStrokes
+    .map((_, userStroke) => userStroke)
+    .filter((userStroke) => !alignedUserStrokes.has(userStroke));
+
+  return {
+    strokes,
+    extraStrokes,
+    isCorrect:
+      !extraStrokes.length &&
+      strokes.every(
+        (stroke) =>
+          !stroke.isOutOfOrder &&
+          (stroke.status === 'correct' ||
+            (stroke.status === 'backwards' && !!options.acceptBackwardsStrokes))
+      ),
+  };
+}
+
+export interface CharacterRecognitionResult {
+  character: Character;
+  /** How well the drawn strokes match the character, from 0 to 1 */
+  score: number;
+  /** How the drawn strokes were aligned to the character's strokes */
+  alignment: FreehandResult;
+}
+
+/**
+ * Ranks candidate characters by how well the drawn strokes (in internal character coordinates) match them, best match first.
+ * Stroke order doesn't affect the score, but missing, extra and backwards strokes lower it.
+ */
+export function recognizeCharacter(
+  userStrokes: Point[][],
+  candidates: Character[],
+  options: {
+    leniency?: number;
+    profile?: GradingProfileName | Partial<GradingProfile>;
+  } = {}
+): CharacterRecognitionResult[] {
+  return candidates
+    .map((character) => {
+      const alignment = alignStrokes(userStrokes, character, options);
+      const total = alignment.strokes.reduce((sum, stroke) => {
+        if (!stroke.grading) {
+          return sum;
+        }
+        // Strokes that were attempted but didn't match still count for something
+        return (
+          sum +
+          (stroke.status === 'incorrect'
+            ? stroke.grading.score / 2
+            : stroke.grading.score)
+        );
+      }, 0);
+      const strokeCount = Math.max(
+        character.strokes.length,
+        userStrokes.length,
+        1
+      );
+      return { character, score: total / strokeCount, alignment };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// 1 for a perfect value, 0.5 at the threshold, falling to 0 at twice the threshold
+const atMost = (value: number, threshold: number): GradingCriterion => ({
+  value,
+  threshold,
+  passed: value <= threshold,
+  score: Math.max(0, Math.min(1, 1 - value / (2 * threshold))),
+});
+
+// 0.5 at the threshold, rising to 1 at twice the threshold
+const atLeast = (value: number, threshold: number): GradingCriterion => ({
+  value,
+  threshold,
+  passed: value >= threshold,
+  score: Math.max(0, Math.min(1, value / (2 * threshold))),
+});
 
 // returns a list of the direction of all segments in the line connecting the points
 const getEdgeVectors = (points: Point[]) => {
@@ -262,7 +907,11 @@ const getEdgeVectors = (points: Point[]) => {
   return vectors;
 };
 
-const directionMatches = (points: Point[], stroke: Stroke) => {
+const gradeDirection = (
+  points: Point[],
+  stroke: Stroke,
+  threshold: number
+): GradingCriterion => {
   const edgeVectors = getEdgeVectors(points);
   const strokeVectors = stroke.getVectors();
   const similarities = edgeVectors.map((edgeVector) => {
@@ -272,15 +921,21 @@ const directionMatches = (points: Point[], stroke: Stroke) => {
     return Math.max(...strokeSimilarities);
   });
   const avgSimilarity = average(similarities);
-  return avgSimilarity > COSINE_SIMILARITY_THRESHOLD;
+  // Similarities range from -1 to 1, with 0.5 at the threshold
+  const score =
+    avgSimilarity >= threshold
+      ? 0.5 + (0.5 * (avgSimilarity - threshold)) / (1 - threshold)
+      : (0.5 * (avgSimilarity + 1)) / (threshold + 1);
+  return {
+    value: avgSimilarity,
+    threshold,
+    passed: avgSimilarity > threshold,
+    score: Math.max(0, Math.min(1, score)),
+  };
 };
 
-const lengthMatches = (points: Point[], stroke: Stroke, leniency: number) => {
-  return (
-    (leniency * (length(points) + 25)) / (stroke.getLength() + 25) >=
-    MIN_LEN_THRESHOLD
-  );
-};
+const gradeLength = (points: Point[], stroke: Stroke, threshold: number) =>
+  atLeast((length(points) + 25) / (stroke.getLength() + 25), threshold);
 
 const stripDuplicates = (points: Point[]) => {
   if (points.length < 2) {
@@ -298,58 +953,125 @@ const stripDuplicates = (points: Point[]) => {
   return dedupedPoints;
 };
 
-const SHAPE_FIT_ROTATIONS = [
-  Math.PI / 16,
-  Math.PI / 32,
-  0,
-  (-1 * Math.PI) / 32,
-  (-1 * Math.PI) / 16,
-];
-
-const shapeFit = (curve1: Point[], curve2: Point[], leniency: number) => {
+const gradeShape = (
+  curve1: Point[],
+  curve2: Point[],
+  threshold: number,
+  rotations: number[]
+) => {
   const normCurve1 = normalizeCurve(curve1);
   const normCurve2 = normalizeCurve(curve2);
   let minDist = Infinity;
-  SHAPE_FIT_ROTATIONS.forEach((theta) => {
+  rotations.forEach((theta) => {
     const dist = frechetDist(normCurve1, rotate(normCurve2, theta));
     if (dist < minDist) {
       minDist = dist;
     }
   });
-  return minDist <= FRECHET_THRESHOLD * leniency;
+  return atMost(minDist, threshold);
+};
+
+type MatchOptions = {
+  leniency?: number;
+  isOutlineVisible?: boolean;
+  profile?: GradingProfileName | Partial<GradingProfile>;
+  checkBackwards?: boolean;
+};
+
+const MAX_COSINE_SIMILARITY_THRESHOLD = 0.99;
+
+const getThresholds = (stroke: Stroke, options: MatchOptions) => {
+  const { leniency = 1, isOutlineVisible = false } = options;
+  const profile = getGradingProfile(options.profile);
+  const distMod = isOutlineVisible || stroke.strokeNum > 0 ? 0.5 : 1;
+  return {
+    averageDistance: profile.avgDistThreshold * distMod * leniency,
+    startAndEnd: profile.startAndEndDistThreshold * leniency,
+    // A threshold of 1 (or more) can't be passed, and would divide the direction score by zero
+    direction: Math.max(
+      -1,
+      Math.min(
+        MAX_COSINE_SIMILARITY_THRESHOLD,
+        profile.cosineSimilarityThreshold
+      )
+    ),
+    shape: profile.frechetThreshold * leniency,
+    shapeFitRotations: profile.shapeFitRotations,
+    length: profile.minLenThreshold / leniency,
+  };
 };
 
+/** Grades every criterion, for reporting why a stroke did or didn't match */
+const getGrading = (
+  points: Point[],
+  stroke: Stroke,
+  options: MatchOptions
+): StrokeGrading => {
+  const thresholds = getThresholds(stroke, options);
+  const startOffset = subtract(points[0], stroke.getStartingPoint());
+  const endOffset = subtract(
+    points[points.length - 1],
+    stroke.getEndingPoint()
+  );
+  const criteria = {
+    averageDistance: atMost(
+      stroke.getAverageDistance(points),
+      thresholds.averageDistance
+    ),
+    startDistance: {
+      ...atMost(magnitude(startOffset), thresholds.startAndEnd),
+      offset: startOffset,
+    },
+    endDistance: {
+      ...atMost(magnitude(endOffset), thresholds.startAndEnd),
+      offset: endOffset,
+    },
+    direction: gradeDirection(points, stroke, thresholds.direction),
+    shape: gradeShape(
+      points,
+      stroke.points,
+      thresholds.shape,
+      thresholds.shapeFitRotations
+    ),
+    length: gradeLength(points, stroke, thresholds.length),
+  };
+  return {
+    ...criteria,
+    score: average(Object.values(criteria).map((criterion) => criterion.score)),
+  };
+};
+
+/** Whether the points match the stroke. Stops at the first criterion that fails, so it's much cheaper than `getGrading` */
 const getMatchData = (
   points: Point[],
   stroke: Stroke,
-  options: {
-    leniency?: number;
-    isOutlineVisible?: boolean;
-    checkBackwards?: boolean;
-  }
-): StrokeMatchResult & { avgDist: number } => {
-  const {
-    leniency = 1,
-    isOutlineVisible = false,
-    checkBackwards = true,
-  } = options;
+  options: MatchOptions
+): { isMatch: boolean; avgDist: number; meta: StrokeMatchResultMeta } => {
+  const { checkBackwards = true } = options;
+  const thresholds = getThresholds(stroke, options);
   const avgDist = stroke.getAverageDistance(points);
-  const distMod = isOutlineVisible || stroke.strokeNum > 0 ? 0.5 : 1;
-  const withinDistThresh = avgDist <= AVG_DIST_THRESHOLD * distMod * leniency;
-  // short circuit for faster matching
-  if (!withinDistThresh) {
+  // short circuit for faster matching. The average distance is the same backwards, so the backwards check is skipped too
+  if (!atMost(avgDist, thresholds.averageDistance).passed) {
     return { isMatch: false, avgDist, meta: { isStrokeBackwards: false } };
   }
-  const startAndEndMatch = startAndEndMatches(points, stroke, leniency);
-  const directionMatch = directionMatches(points, stroke);
-  const shapeMatch = shapeFit(points, stroke.points, leniency);
-  const lengthMatch = lengthMatches(points, stroke, leniency);
+  // The shape is the most expensive to check, so it's checked last
   const isMatch =
-    withinDistThresh &&
-    startAndEndMatch &&
-    directionMatch &&
-    shapeMatch &&
-    lengthMatch;
+    atMost(
+      distance(points[0], stroke.getStartingPoint()),
+      thresholds.startAndEnd
+    ).passed &&
+    atMost(
+      distance(points[points.length - 1], stroke.getEndingPoint()),
+      thresholds.startAndEnd
+    ).passed &&
+    gradeDirection(points, stroke, thresholds.direction).passed &&
+    gradeLength(points, stroke, thresholds.length).passed &&
+    gradeShape(
+      points,
+      stroke.points,
+      thresholds.shape,
+      thresholds.shapeFitRotations
+    ).passed;
 
   if (checkBackwards && !isMatch) {
     const backwardsMatchData = getMatchData([...points].reverse(), stroke, {
@@ -358,11 +1080,7 @@ const getMatchData = (
     });
 
     if (backwardsMatchData.isMatch) {
-      return {
-        isMatch,
-        avgDist,
-        meta: { isStrokeBackwards: true },
-      };
+      return { isMatch, avgDist, meta: { isStrokeBackwards: true } };
     }
   }
 
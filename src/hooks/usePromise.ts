@@ -2,12 +2,13 @@ import { useEffect, useState } from 'react';
 
 interface UsePromiseOptions<T> {
   cacheKey?: string;
-  promiseFn?: () => Promise<T>;
+  /** The signal is aborted when `cacheKey` changes or the component unmounts */
+  promiseFn?: (signal: AbortSignal) => Promise<T>;
+  /** Synchronous cache lookup. A hit before any load has started skips the pending state entirely. */
+  getCached?: () => T | undefined;
 }
 
-const PromiseCache = new Map<string, any>();
-
-type PromiseState<T> =
+export type PromiseState<T> =
   | {
       status: 'idle';
     }
@@ -28,27 +29,37 @@ export function usePromise<T>(options: UsePromiseOptions<T>): {
   state: PromiseState<T>;
   refetch: () => void;
 } {
-  const [state, setState] = useState<PromiseState<T>>({ status: 'idle' });
+  // The key is kept with the state, so a load for a previous key is never reported for the current one
+  const [keyedState, setKeyedState] = useState<{
+    cacheKey?: string;
+    state: PromiseState<T>;
+  }>({ state: { status: 'idle' } });
   const [refetchKey, setRefetchKey] = useState(0);
 
-  const hasCacheHit = PromiseCache.get(options.cacheKey || '');
+  const { promiseFn, cacheKey } = options;
+  const cachedData = options.getCached?.();
+  const hasCacheHit = cachedData !== undefined;
+  // Without a promise (e.g. no character to load), there's nothing to show
+  const isIdle = !promiseFn || cacheKey === undefined;
 
   useEffect(() => {
-    if (!options.promiseFn || hasCacheHit) {
+    if (isIdle) {
+      setKeyedState({ state: { status: 'idle' } });
+      return;
+    }
+    if (hasCacheHit) {
       return;
     }
 
-    let safeSetState = setState;
+    let safeSetState = (state: PromiseState<T>) =>
+      setKeyedState({ cacheKey, state });
+    const controller = new AbortController();
 
     safeSetState({ status: 'pending' });
 
-    options
-      .promiseFn()
+    promiseFn(controller.signal)
       .then((data) => {
         safeSetState({ status: 'resolved', data });
-        if (options.cacheKey) {
-          PromiseCache.set(options.cacheKey, { status: 'resolved', data });
-        }
       })
       .catch((error) => {
         safeSetState({ status: 'rejected', error });
@@ -56,13 +67,21 @@ export function usePromise<T>(options: UsePromiseOptions<T>): {
 
     return () => {
       safeSetState = () => {};
+      controller.abort();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [options.cacheKey, hasCacheHit, refetchKey]);
+  }, [cacheKey, isIdle, hasCacheHit, refetchKey]);
 
-  const characterState = hasCacheHit
-    ? PromiseCache.get(options.cacheKey || '')
-    : state;
+  // Once a load has started, its result wins over cache hits (such as the entry the load itself cached)
+  const loadState =
+    keyedState.cacheKey === cacheKey ? keyedState.state : undefined;
+  const characterState: PromiseState<T> = isIdle
+    ? { status: 'idle' }
+    : loadState
+    ? loadState
+    : hasCacheHit
+    ? { status: 'resolved', data: cachedData }
+    : { status: 'pending' };
 
   return {
     state: characterState,
@@ -0,0 +1,16 @@
+import { useSyncExternalStoreWithSelector } from 'use-sync-external-store/with-selector';
+import type { createStoreApi } from '../store';
+
+export function useStore(
+  api: ReturnType<typeof createStoreApi>,
+  selector: (state: any) => any,
+  equalityFn: any
+) {
+  return useSyncExternalStoreWithSelector(
+    api.subscribe,
+    api.getState,
+    api.getState,
+    selector,
+    equalityFn
+  );
+}
@@ -0,0 +1,82 @@
+/** Helpers for Ideographic Description Sequences (IDS), e.g. `⿰女子` for 好 */
+
+/** Number of components each IDS operator takes */
+const OPERATOR_ARITY: Record<string, number> = {
+  '⿰': 2,
+  '⿱': 2,
+  '⿲': 3,
+  '⿳': 3,
+  '⿴': 2,
+  '⿵': 2,
+  '⿶': 2,
+  '⿷': 2,
+  '⿸': 2,
+  '⿹': 2,
+  '⿺': 2,
+  '⿻': 2,
+};
+
+export type IdsNode =
+  | {
+      type: 'component';
+      /** The component, or '？' if it's unknown */
+      character: string;
+    }
+  | {
+      type: 'operator';
+      operator: string;
+      children: IdsNode[];
+    };
+
+export function isIdsOperator(char: string) {
+  return char in OPERATOR_ARITY;
+}
+
+/** Parses an IDS string into a tree. Returns null if the sequence is incomplete. */
+export function parseIds(ids: string): IdsNode | null {
+  const chars = Array.from(ids);
+  let position = 0;
+
+  const parseNode = (): IdsNode | null => {
+    const char = chars[position++];
+    if (char === undefined) {
+      return null;
+    }
+    if (!isIdsOperator(char)) {
+      return { type: 'component', character: char };
+    }
+    const children: IdsNode[] = [];
+    for (let i = 0; i < OPERATOR_ARITY[char]; i++) {
+      const child = parseNode();
+      if (!child) {
+        return null;
+      }
+      children.push(child);
+    }
+    return { type: 'operator', operator: char, children };
+  };
+
+  return parseNode();
+}
+
+/** Returns the node at `path`, where each number is a child index (the format used by makemeahanzi's `matches`) */
+export function getIdsNode(tree: IdsNode, path: number[]): IdsNode | undefined {
+  let node: IdsNode | undefined = tree;
+  for (const index of path) {
+    node = node?.type === 'operator' ? node.children[index] : undefined;
+  }
+  return node;
+}
+
+/** Returns the paths of every component in the tree, depth first */
+export function getIdsComponentPaths(
+  tree: IdsNode,
+  path: number[] = []
+): { character: string; path: number[] }[] {
+  if (tree.type === 'component') {
+    return [{ character: tree.character, path }];
+  }
+  return tree.children.flatMap((child, index) =>
+    getIdsComponentPaths(child, [...path, index])
+  );
+}
@@ -0,0 +1,56 @@
+import { CharacterNotFoundError } from '../errors';
+import type { CharDataLoader } from '../loader';
+import type { CharacterJson } from '../types';
+
+type StoreEntry = CharacterJson | (() => CharacterJson);
+
+/**
+ * An in-memory collection of character data, typically built from a bulk import.
+ * Use `store.loader` as the `loader` of `useHanziWriter`.
+ */
+export class CharacterStore {
+  /** Identifies the store in cache keys */
+  readonly id: string;
+  /** Loader for `useHanziWriter`. Throws a `CharacterNotFoundError` for characters that aren't in the store. */
+  readonly loader: CharDataLoader;
+  private entries = new Map<string, StoreEntry>();
+
+  constructor(id: string) {
+    this.id = id;
+    this.loader = (character: string) => {
+      const data = this.get(character);
+      if (!data) {
+        throw new CharacterNotFoundError(character);
+      }
+      return data;
+    };
+    this.loader.loaderId = `store:${id}`;
+  }
+
+  /** Adds a character. Pass a function to defer parsing until the character is requested. */
+  set(character: string, data: StoreEntry) {
+    this.entries.set(character, data);
+    return this;
+  }
+
+  get(character: string): CharacterJson | undefined {
+    const entry = this.entries.get(character);
+    return typeof entry === 'function' ? entry() : entry;
+  }
+
+  has(character: string) {
+    return this.entries.has(character);
+  }
+
+  delete(character: string) {
+    return this.entries.delete(character);
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  characters() {
+    return Array.from(this.entries.keys());
+  }
+}
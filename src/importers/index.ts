@@ -0,0 +1,3 @@
+export * from './character-store';
+export * from './makemeahanzi';
+export * from './kanjivg';
@@ -0,0 +1,196 @@
+import { CharacterDataInvalidError } from '../errors';
+import { getPathString, outlineStroke } from '../geometry';
+import { fetchCharacterResource, type CharDataLoader } from '../loader';
+import simplify from '../simplify';
+import { samplePath } from '../svg-path';
+import type { CharacterJson, Point } from '../types';
+import { CharacterStore } from './character-store';
+
+/** KanjiVG drawings are laid out on a 109x109 canvas */
+const KANJIVG_SIZE = 109;
+// Internal coordinates span x: 0 -> 1024, y: -124 -> 900, with y pointing up
+const SCALE = 1024 / KANJIVG_SIZE;
+const TOP = 900;
+
+export interface KanjiVGOptions {
+  /** Width of the generated stroke outlines, in internal (1024 unit) coordinates. Default: 64 */
+  strokeWidth?: number;
+  /** Tolerance used to simplify medians, in internal coordinates. Larger values produce fewer median points. Default: 12 */
+  medianTolerance?: number;
+  /** Which KanjiVG radical annotation marks radical strokes. Default: 'general' */
+  radicalType?: 'general' | 'tradit' | 'nelson';
+}
+
+const DEFAULT_OPTIONS: Required<KanjiVGOptions> = {
+  strokeWidth: 64,
+  medianTolerance: 12,
+  radicalType: 'general',
+};
+
+export interface KanjiVGLoaderOptions extends KanjiVGOptions {
+  /** URL that the KanjiVG file name (e.g. `05b57.svg`) is appended to. Default: the KanjiVG repository on jsDelivr */
+  baseUrl?: string;
+  /** Time in milliseconds before the request fails with a `NetworkError`. Default: no timeout */
+  timeout?: number;
+}
+
+const TAG_REGEX = /<(\/?)(g|path)\b([^>]*?)(\/?)>/g;
+const ATTRIBUTE_REGEX = /([\w:-]+)\s*=\s*"([^"]*)"/g;
+
+function parseAttributes(source: string) {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of source.matchAll(ATTRIBUTE_REGEX)) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
+
+/** Returns the KanjiVG file name for a character, e.g. `05b57.svg` for 字 */
+export function getKanjiVGFileName(character: string) {
+  const codePoint = character.codePointAt(0) ?? 0;
+  return `${codePoint.toString(16).padStart(5, '0')}.svg`;
+}
+
+const toInternalPoint = (point: Point) => ({
+  x: point.x * SCALE,
+  y: TOP - point.y * SCALE,
+});
+
+/**
+ * Converts a KanjiVG SVG file to `CharacterJson`. Stroke outlines are generated around KanjiVG's centreline strokes,
+ * which also provide the medians. Returns the character (from the `kvg:element` annotation) along with the data.
+ */
+export function convertKanjiVG(
+  svg: string,
+  options: KanjiVGOptions = {}
+): { character: string | undefined; data: CharacterJson } {
+  const {
+    strokeWidth = DEFAULT_OPTIONS.strokeWidth,
+    medianTolerance = DEFAULT_OPTIONS.medianTolerance,
+    radicalType = DEFAULT_OPTIONS.radicalType,
+  } = options;
+  const strokes: string[] = [];
+  const medians: number[][][] = [];
+  const radStrokes: number[] = [];
+  let character: string | undefined;
+  // Whether each open group (and so its descendants) is part of the radical
+  const radicalGroups: boolean[] = [];
+
+  for (const [, closing, tag, rawAttributes, selfClosing] of svg.matchAll(
+    TAG_REGEX
+  )) {
+    if (tag === 'g') {
+      if (closing) {
+        radicalGroups.pop();
+        continue;
+      }
+      const attributes = parseAttributes(rawAttributes);
+      if (!character && attributes['kvg:element']) {
+        character = attributes['kvg:element'];
+      }
+      const radical = attributes['kvg:radical'];
+      const isRadical =
+        radicalGroups[radicalGroups.length - 1] || radical === radicalType;
+      if (!selfClosing) {
+        radicalGroups.push(isRadical);
+      }
+      continue;
+    }
+
+    const attributes = parseAttributes(rawAttributes);
+    if (!attributes.d) {
+      continue;
+    }
+    const points = samplePath(attributes.d).flat().map(toInternalPoint);
+    if (points.length < 2) {
+      continue;
+    }
+    const median = simplify(points, medianTolerance, true);
+    const outline = outlineStroke(points, strokeWidth);
+
+    if (radicalGroups[radicalGroups.length - 1]) {
+      radStrokes.push(strokes.length);
+    }
+    strokes.push(getPathString(outline, true));
+    medians.push(
+      median.map((point) => [Math.round(point.x), Math.round(point.y)])
+    );
+  }
+
+  if (!strokes.length) {
+    throw new CharacterDataInvalidError(character ?? '', [
+      'the SVG has no stroke paths',
+    ]);
+  }
+
+  const data: CharacterJson = { strokes, medians };
+  if (radStrokes.length) {
+    data.radStrokes = radStrokes;
+  }
+  return { character, data };
+}
+
+/** Converts many KanjiVG SVG files at once, keyed by character. Files without a `kvg:element` annotation are skipped. */
+export function convertKanjiVGFiles(
+  svgs: string[],
+  options: KanjiVGOptions = {}
+): Record<string, CharacterJson> {
+  const result: Record<string, CharacterJson> = {};
+  for (const svg of svgs) {
+    const { character, data } = convertKanjiVG(svg, options);
+    if (character) {
+      result[character] = data;
+    }
+  }
+  return result;
+}
+
+/** Creates a character store from KanjiVG SVG files. Files are only converted when a character is requested. */
+export function createKanjiVGStore(
+  svgs: string[] | Record<string, string>,
+  options: KanjiVGOptions & {
+    /** Identifies the store in cache keys. Default: 'kanjivg' */
+    id?: string;
+  } = {}
+) {
+  const store = new CharacterStore(options.id ?? 'kanjivg');
+  if (Array.isArray(svgs)) {
+    Object.entries(convertKanjiVGFiles(svgs, options)).forEach(
+      ([character, data]) => store.set(character, data)
+    );
+  } else {
+    Object.entries(svgs).forEach(([character, svg]) =>
+      store.set(character, () => convertKanjiVG(svg, options).data)
+    );
+  }
+  return store;
+}
+
+/** Creates a loader that fetches and converts KanjiVG SVG files at runtime */
+export function createKanjiVGLoader(
+  options: KanjiVGLoaderOptions = {}
+): CharDataLoader {
+  const {
+    baseUrl = 'https://cdn.jsdelivr.net/gh/KanjiVG/kanjivg@master/kanji/',
+    timeout,
+  } = options;
+  const url = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+
+  const loader: CharDataLoader = async (char, context) => {
+    const svg = await fetchCharacterResource(
+      char,
+      `${url}${getKanjiVGFileName(char)}`,
+      { signal: context?.signal, timeout },
+      (res) => res.text()
+    );
+    return convertKanjiVG(svg, options).data;
+  };
+  // Every option that changes the converted data is part of the cache key
+  const {
+    strokeWidth = DEFAULT_OPTIONS.strokeWidth,
+    medianTolerance = DEFAULT_OPTIONS.medianTolerance,
+    radicalType = DEFAULT_OPTIONS.radicalType,
+  } = options;
+  loader.loaderId = `kanjivg:${url}:${strokeWidth}:${medianTolerance}:${radicalType}`;
+  return loader;
+}
@@ -0,0 +1,160 @@
+import { getIdsComponentPaths, parseIds } from '../ids';
+import type { CharacterJson } from '../types';
+import { CharacterStore } from './character-store';
+
+/** A line of makemeahanzi's `graphics.txt` */
+export interface MakeMeAHanziGraphicsEntry {
+  character: string;
+  strokes: string[];
+  medians: number[][][];
+}
+
+/** A line of makemeahanzi's `dictionary.txt` */
+export interface MakeMeAHanziDictionaryEntry {
+  character: string;
+  definition?: string;
+  pinyin?: string[];
+  /** IDS decomposition, e.g. `⿰女子` */
+  decomposition?: string;
+  radical?: string;
+  /** For each stroke, the path to the component in `decomposition` it belongs to, or null */
+  matches?: (number[] | null)[];
+  etymology?: {
+    type: string;
+    hint?: string;
+    phonetic?: string;
+    semantic?: string;
+  };
+}
+
+// Lines start with the character, so it can be read without parsing the whole entry
+const CHARACTER_PREFIX = /^\s*\{\s*"character"\s*:\s*"((?:[^"\\]|\\.)*)"/;
+
+/** Calls `callback` with the character and raw JSON of every non-empty line */
+function forEachLine(
+  text: string,
+  callback: (character: string, line: string) => void
+) {
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) {
+      return;
+    }
+    const match = CHARACTER_PREFIX.exec(line);
+    const character: unknown = match
+      ? JSON.parse(`"${match[1]}"`)
+      : JSON.parse(line).character;
+    if (typeof character !== 'string' || !character) {
+      throw new Error(`makemeahanzi data: line ${index + 1} has no character`);
+    }
+    callback(character, line);
+  });
+}
+
+/** Parses makemeahanzi's line-delimited `dictionary.txt` */
+export function parseMakeMeAHanziDictionary(text: string) {
+  const entries = new Map<string, MakeMeAHanziDictionaryEntry>();
+  forEachLine(text, (character, line) => {
+    entries.set(character, JSON.parse(line));
+  });
+  return entries;
+}
+
+/**
+ * Derives the indexes of the strokes that make up the radical, using the dictionary entry's decomposition and stroke matches.
+ * Returns undefined if the radical can't be located.
+ */
+export function getRadicalStrokes(
+  entry: MakeMeAHanziDictionaryEntry,
+  strokeCount: number
+): number[] | undefined {
+  const { radical, decomposition, matches } = entry;
+  if (!radical) {
+    return undefined;
+  }
+  // The character is a radical itself
+  if (radical === entry.character) {
+    return Array.from({ length: strokeCount }, (_, i) => i);
+  }
+  const tree = decomposition ? parseIds(decomposition) : null;
+  if (!tree || !matches) {
+    return undefined;
+  }
+  const radicalPaths = getIdsComponentPaths(tree)
+    .filter((component) => component.character === radical)
+    .map((component) => component.path);
+  if (!radicalPaths.length) {
+    return undefined;
+  }
+
+  const radStrokes: number[] = [];
+  matches.forEach((match, strokeNum) => {
+    const isInRadical =
+      !!match &&
+      radicalPaths.some((path) =>
+        path.every((index, depth) => match[depth] === index)
+      );
+    if (isInRadical) {
+      radStrokes.push(strokeNum);
+    }
+  });
+  return radStrokes.length ? radStrokes : undefined;
+}
+
+/** Converts a `graphics.txt` entry (plus an optional `dictionary.txt` entry, providing the radical and decomposition) to `CharacterJson` */
+export function convertMakeMeAHanziEntry(
+  graphics: MakeMeAHanziGraphicsEntry,
+  dictionary?: MakeMeAHanziDictionaryEntry
+): CharacterJson {
+  const data: CharacterJson = {
+    strokes: graphics.strokes,
+    medians: graphics.medians,
+  };
+  if (!dictionary) {
+    return data;
+  }
+  const radStrokes = getRadicalStrokes(dictionary, graphics.strokes.length);
+  if (radStrokes) {
+    data.radStrokes = radStrokes;
+  }
+  if (dictionary.radical) {
+    data.radical = dictionary.radical;
+  }
+  if (dictionary.decomposition) {
+    data.decomposition = dictionary.decomposition;
+  }
+  if (dictionary.matches?.length === graphics.strokes.length) {
+    data.matches = dictionary.matches;
+  }
+  return data;
+}
+
+/**
+ * Creates a character store from the contents of makemeahanzi's `graphics.txt`, and optionally `dictionary.txt` (used to derive radical strokes).
+ * Entries are only parsed when a character is requested, so the whole dataset can be loaded up front.
+ *
+ * @example
+ * const store = createMakeMeAHanziStore(graphicsText, { dictionary: dictionaryText });
+ * const writer = useHanziWriter({ character: '好', loader: store.loader });
+ */
+export function createMakeMeAHanziStore(
+  graphics: string,
+  options: {
+    dictionary?: string;
+    /** Identifies the store in cache keys. Default: 'makemeahanzi' */
+    id?: string;
+  } = {}
+) {
+  const store = new CharacterStore(options.id ?? 'makemeahanzi');
+  const dictionary = options.dictionary
+    ? parseMakeMeAHanziDictionary(options.dictionary)
+    : undefined;
+
+  forEachLine(graphics, (character, line) => {
+    store.set(character, () =>
+      convertMakeMeAHanziEntry(JSON.parse(line), dictionary?.get(character))
+    );
+  });
+
+  return store;
+}
@@ -1 +1,53 @@
 export * from './HanziWriter';
+export * from './StrokeAuthoring';
+export * from './WordWriter';
+export * from './character-cache';
+export * from './loader';
+export * from './errors';
+export * from './importers';
+export * from './ids';
+export * from './adaptive-grading';
+export {
+  QuizEngine,
+  type QuizCheckResult,
+  type QuizEngineEvents,
+  type QuizState,
+  type QuizTimerState,
+  type StartQuizParams,
+} from './quiz-engine';
+export {
+  alignStrokes,
+  Character,
+  getGradingProfile,
+  gradingProfiles,
+  matchJoinedStrokes,
+  Positioner,
+  recognizeCharacter,
+  Stroke,
+  strokeMatches,
+  UserStroke,
+  validateCharData,
+  type CharacterComponent,
+  type CharacterRadical,
+  type CharacterRecognitionResult,
+  type JoinedStrokeSegment,
+  type StrokeMatchResult,
+} from './hanzi-writer';
+export type {
+  ExamOptions,
+  ExamResult,
+  FreehandOptions,
+  FreehandResult,
+  FreehandStrokeResult,
+  GradingCriterion,
+  GradingProfile,
+  GradingProfileName,
+  QuizHistoryEntry,
+  QuizSnapshot,
+  QuizSummary,
+  QuizUserStroke,
+  SerializableQuizOptions,
+  StrokeData,
+  StrokeGrading,
+  WordQuizSummary,
+} from './types';
@@ -0,0 +1,428 @@
+import { validateCharData, type Character } from './hanzi-writer';
+import type { CharacterJson } from './types';
+import {
+  CharacterCache,
+  DEFAULT_LOADER_ID,
+  defaultCharacterCache,
+  getLoaderId,
+} from './character-cache';
+import {
+  CharacterDataInvalidError,
+  CharacterNotFoundError,
+  NetworkError,
+} from './errors';
+
+export interface CharDataLoaderContext {
+  /** Aborted when the character is no longer needed (e.g. the writer switched characters or unmounted) */
+  signal: AbortSignal;
+}
+
+export type CharDataLoader = ((
+  char: string,
+  context?: CharDataLoaderContext
+) => Promise<CharacterJson> | CharacterJson) & {
+  /** Identifies the loader in cache keys. Without it, the loader's characters are only cached in memory */
+  loaderId?: string;
+};
+
+export interface CharDataLoaderOptions {
+  /** URL that `${char}.json` is appended to. Default: 'https://cdn.jsdelivr.net/npm/hanzi-writer-data@2.0/' */
+  baseUrl?: string;
+  /** Time in milliseconds before the request fails with a `NetworkError`. Default: no timeout */
+  timeout?: number;
+}
+
+/** Returns an error that signals the load was aborted, rather than failed */
+export function createAbortError(): Error {
+  const error = new Error('The character load was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Fetches a resource for a character, translating failures into typed errors:
+ * `CharacterNotFoundError` for 404s, `NetworkError` for failed requests, timeouts and error statuses,
+ * and `CharacterDataInvalidError` if `parse` throws.
+ */
+export async function fetchCharacterResource<T>(
+  char: string,
+  url: string,
+  options: { signal?: AbortSignal; timeout?: number },
+  parse: (res: Response) => Promise<T>
+): Promise<T> {
+  const { signal, timeout } = options;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  let timedOut = false;
+  const timer =
+    timeout !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+  try {
+    let res: Response;
+    try {
+      res = await fetch(url, { signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new NetworkError(char, {
+          cause: new Error(`Request timed out after ${timeout}ms`),
+        });
+      }
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      throw new NetworkError(char, { cause: error });
+    }
+    if (res.status === 404) {
+      throw new CharacterNotFoundError(char);
+    }
+    if (!res.ok) {
+      throw new NetworkError(char, { status: res.status });
+    }
+    try {
+      return await parse(res);
+    } catch (error) {
+      if (error instanceof CharacterDataInvalidError) {
+        throw error;
+      }
+      throw new CharacterDataInvalidError(char, [
+        `response could not be parsed: ${(error as Error).message}`,
+      ]);
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+const DEFAULT_BASE_URL = 'https://cdn.jsdelivr.net/npm/hanzi-writer-data@2.0/';
+
+/** Creates a loader that fetches `hanzi-writer-data` formatted JSON files */
+export function createCharDataLoader(
+  options: CharDataLoaderOptions = {}
+): CharDataLoader {
+  const { baseUrl = DEFAULT_BASE_URL, timeout } = options;
+  const url = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+
+  const loader: CharDataLoader = (char, context) =>
+    fetchCharacterResource(
+      char,
+      `${url}${char}.json`,
+      { signal: context?.signal, timeout },
+      (res) => res.json()
+    );
+  // Loaders for the default URL share cache entries with writers that don't pass a loader
+  loader.loaderId = url === DEFAULT_BASE_URL ? DEFAULT_LOADER_ID : `url:${url}`;
+  return loader;
+}
+
+export const defaultCharDataLoader = createCharDataLoader();
+
+export interface RetryPolicy {
+  /** Number of retries after the first attempt. Default: 0 */
+  retries?: number;
+  /** Delay in milliseconds before the first retry. Doubles (by default) on every retry. Default: 500 */
+  baseDelay?: number;
+  /** Upper bound for the delay between retries in milliseconds. Default: 8000 */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after every retry. Default: 2 */
+  factor?: number;
+  /** Whether an error is worth retrying. Default: retries everything except `CharacterNotFoundError` and `CharacterDataInvalidError` */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+}
+
+export interface LoaderSource {
+  /** Reported as `characterState.source` when this source loads the character. Defaults to the loader id */
+  name?: string;
+  loader: CharDataLoader;
+  retry?: RetryPolicy;
+}
+
+/** A single loader, or an ordered list of sources where each is tried in turn until one succeeds */
+export type CharDataLoaders =
+  | CharDataLoader
+  | Array<CharDataLoader | LoaderSource>;
+
+/** Source reported for characters that were already cached */
+export const CACHE_SOURCE = 'cache';
+
+function toSources(loaders?: CharDataLoaders): LoaderSource[] {
+  if (!loaders) {
+    return [{ loader: defaultCharDataLoader, name: DEFAULT_LOADER_ID }];
+  }
+  return (Array.isArray(loaders) ? loaders : [loaders]).map((source) =>
+    typeof source === 'function' ? { loader: source } : source
+  );
+}
+
+/** Returns the id used in cache keys for a loader or list of loaders */
+export function getLoadersId(loaders?: CharDataLoaders) {
+  if (!Array.isArray(loaders)) {
+    return getLoaderId(loaders);
+  }
+  return loaders
+    .map((source) =>
+      getLoaderId(typeof source === 'function' ? source : source.loader)
+    )
+    .join('|');
+}
+
+const defaultShouldRetry = (error: Error) =>
+  !(error instanceof CharacterNotFoundError) &&
+  !(error instanceof CharacterDataInvalidError);
+
+/** Resolves after `ms`, or rejects as soon as the signal is aborted */
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort);
+  });
+}
+
+async function loadWithRetry(
+  character: string,
+  loader: CharDataLoader,
+  policy: RetryPolicy,
+  signal: AbortSignal
+): Promise<CharacterJson> {
+  const {
+    retries = 0,
+    baseDelay = 500,
+    maxDelay = 8000,
+    factor = 2,
+    shouldRetry = defaultShouldRetry,
+  } = policy;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const data = await loader(character, { signal });
+      validateCharData(character, data);
+      return data;
+    } catch (error) {
+      if (
+        signal.aborted ||
+        isAbortError(error) ||
+        attempt >= retries ||
+        !shouldRetry(error as Error, attempt)
+      ) {
+        throw error;
+      }
+      await sleep(Math.min(maxDelay, baseDelay * factor ** attempt), signal);
+    }
+  }
+}
+
+/** Tries each source in order, returning the data along with the name of the source that provided it */
+async function loadFromSources(
+  character: string,
+  loaders: CharDataLoaders | undefined,
+  signal: AbortSignal
+): Promise<{ data: CharacterJson; source: string }> {
+  let lastError: unknown;
+  for (const { loader, name, retry = {} } of toSources(loaders)) {
+    try {
+      const data = await loadWithRetry(character, loader, retry, signal);
+      return { data, source: name ?? getLoaderId(loader) };
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) {
+        throw createAbortError();
+      }
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+export interface LoadCharacterOptions {
+  /** Default: `defaultCharDataLoader` */
+  loader?: CharDataLoaders;
+  /** Identifies the loader in cache keys. Defaults to the loader's `loaderId` (see `getLoaderId`) */
+  loaderId?: string;
+  /** Default: the shared cache used by `useHanziWriter` */
+  cache?: CharacterCache;
+  /** Stops waiting for the character. The underlying request is only aborted once nothing else is waiting on it */
+  signal?: AbortSignal;
+}
+
+export interface LoadResult {
+  character: Character;
+  /** Name of the source that provided the character, or `'cache'` */
+  source: string;
+}
+
+type PendingLoad = {
+  promise: Promise<LoadResult>;
+  controller: AbortController;
+  /** Number of callers still waiting on the request */
+  consumers: number;
+};
+
+/** Requests currently in flight, so that a writer and a prefetch for the same character share one request */
+const pendingLoads = new WeakMap<CharacterCache, Map<string, PendingLoad>>();
+
+/** Loads a character through the cache, only calling the loader on a cache miss */
+export function loadCharacter(
+  character: string,
+  options: LoadCharacterOptions = {}
+): Promise<Character> {
+  return loadCharacterWithSource(character, options).then(
+    (result) => result.character
+  );
+}
+
+/** Same as `loadCharacter`, but also reports which source provided the character */
+export function loadCharacterWithSource(
+  character: string,
+  options: LoadCharacterOptions = {}
+): Promise<LoadResult> {
+  const { signal } = options;
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  const cache = options.cache || defaultCharacterCache;
+  const loaderId = options.loaderId ?? getLoadersId(options.loader);
+  const key = CharacterCache.getKey(character, loaderId);
+
+  let pending = pendingLoads.get(cache);
+  if (!pending) {
+    pending = new Map();
+    pendingLoads.set(cache, pending);
+  }
+
+  let load = pending.get(key);
+  if (!load) {
+    const controller = new AbortController();
+    const promise = (async () => {
+      const cached = await cache.get(character, loaderId);
+      if (cached) {
+        return { character: cached, source: CACHE_SOURCE };
+      }
+      const { data, source } = await loadFromSources(
+        character,
+        options.loader,
+        controller.signal
+      );
+      if (controller.signal.aborted) {
+        throw createAbortError();
+      }
+      return {
+        character: await cache.set(character, data, loaderId),
+        source,
+      };
+    })().finally(() => {
+      // An aborted load may already have been replaced by a new one
+      if (pending!.get(key)?.promise === promise) {
+        pending!.delete(key);
+      }
+    });
+    load = { promise, controller, consumers: 0 };
+    pending.set(key, load);
+  }
+
+  const currentLoad = load;
+  currentLoad.consumers++;
+
+  if (!signal) {
+    return currentLoad.promise;
+  }
+
+  return new Promise<LoadResult>((resolve, reject) => {
+    const onAbort = () => {
+      currentLoad.consumers--;
+      if (currentLoad.consumers === 0) {
+        currentLoad.controller.abort();
+        pending!.delete(key);
+      }
+      reject(createAbortError());
+    };
+    signal.addEventListener('abort', onAbort);
+    currentLoad.promise
+      .finally(() => signal.removeEventListener('abort', onAbort))
+      .then(resolve, reject);
+  });
+}
+
+export interface PrefetchProgress {
+  /** The character that just finished loading (or failed to) */
+  character: string;
+  loaded: number;
+  failed: number;
+  total: number;
+}
+
+export interface PrefetchOptions extends LoadCharacterOptions {
+  /** Maximum number of characters loaded at the same time. Default: 4 */
+  concurrency?: number;
+  /** Called every time a character finishes loading. Errors it throws are ignored, so they don't stop the prefetch */
+  onProgress?: (progress: PrefetchProgress) => void;
+}
+
+export interface PrefetchResult {
+  loaded: string[];
+  failed: { character: string; error: Error }[];
+}
+
+/**
+ * Warms the character cache ahead of time, so writers switching to these characters render instantly.
+ * Accepts an array of characters or a string (e.g. `'你好'`). Never rejects; failures are reported in the result.
+ * Aborting `signal` skips the characters that haven't started loading yet.
+ */
+export async function prefetchCharacters(
+  chars: string[] | string,
+  options: PrefetchOptions = {}
+): Promise<PrefetchResult> {
+  const { concurrency = 4, onProgress, ...loadOptions } = options;
+  const queue = Array.from(new Set(Array.from(chars)));
+  const total = queue.length;
+  const result: PrefetchResult = { loaded: [], failed: [] };
+
+  const worker = async () => {
+    let character = queue.shift();
+    while (character !== undefined && !loadOptions.signal?.aborted) {
+      try {
+        await loadCharacter(character, loadOptions);
+        result.loaded.push(character);
+      } catch (error) {
+        if (isAbortError(error)) {
+          break;
+        }
+        result.failed.push({ character, error: error as Error });
+      }
+      try {
+        onProgress?.({
+          character,
+          loaded: result.loaded.length,
+          failed: result.failed.length,
+          total,
+        });
+      } catch {
+        // A throwing callback shouldn't stop the prefetch
+      }
+      character = queue.shift();
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, total));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return result;
+}
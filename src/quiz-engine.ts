@@ -0,0 +1,1171 @@
+import { getPathString } from './geometry';
+import {
+  alignStrokes,
+  matchAnyStroke,
+  matchJoinedStrokes,
+  strokeMatches,
+  UserStroke,
+  type Character,
+  type JoinedStrokeSegment,
+  type Positioner,
+} from './hanzi-writer';
+import { createStoreApi } from './store';
+import type {
+  ExamResult,
+  FreehandResult,
+  Point,
+  QuizHistoryEntry,
+  QuizOptions,
+  QuizSnapshot,
+  QuizSummary,
+  QuizUserStroke,
+  StrokeData,
+} from './types';
+import { generateId } from './utils';
+
+export type StartQuizParams = Partial<QuizOptions>;
+
+interface QuizProgress {
+  character: string;
+  index: number;
+  mistakes: Record<number, number>;
+  /** Accepted strokes, in the order they were drawn */
+  drawnStrokes: number[];
+  backwardsStrokes: number;
+  orderViolations: number;
+  hintsShown: number;
+  /** Strokes given up on with `skipStroke()` */
+  skippedStrokes: number[];
+  /** Strokes drawn wrong in exam mode */
+  failedStrokes: number[];
+  /** Groups of consecutive strokes drawn in one gesture */
+  joinedStrokes: number[][];
+  /** Number of times the stroke time limit ran out */
+  strokeTimeouts: number;
+  /** Whether the quiz was ended by a time limit */
+  timedOut: boolean;
+  /** Strokes that weren't drawn before the quiz timed out */
+  unfinishedStrokes: number[];
+  /** Strokes drawn so far in a freehand quiz, graded by `finish()` */
+  freehandStrokes: Pick<QuizUserStroke, 'points' | 'externalPoints' | 'time'>[];
+  /** Results of a graded freehand quiz */
+  freehandResult: FreehandResult | null;
+  /** Number of times `revealStroke()` was called */
+  revealedStrokes: number;
+  /** Set by `revealStroke()` to play the hint for a stroke */
+  reveal: { strokeNum: number; key: string } | null;
+  undos: number;
+  restarts: number;
+  startStrokeNum: number;
+  /** Timestamp the quiz started at */
+  startTime: number;
+  /** Timestamp the current stroke became active at */
+  strokeStartTime: number;
+  /** Timestamp the quiz was completed at */
+  endTime: number | null;
+  /** Timestamp the current stroke's time limit runs out at */
+  strokeDeadline: number | null;
+  /** Timestamp the quiz's time limit runs out at */
+  quizDeadline: number | null;
+  /** Set while the completed character is flashing */
+  highlightKey: string | null;
+  strokeTimes: Record<number, number>;
+  userStrokes: QuizUserStroke[];
+  /** Progress from before each stroke was completed, for `undo()` */
+  history: QuizHistoryEntry[];
+}
+
+/** Time left on the quiz's time limits, kept apart from `QuizState` as it changes every `TIMER_INTERVAL` */
+export interface QuizTimerState {
+  /** Milliseconds left to draw the current stroke. Null without a `strokeTimeLimit` */
+  strokeTimeRemaining: number | null;
+  /** Milliseconds left to finish the quiz. Null without a `quizTimeLimit` */
+  quizTimeRemaining: number | null;
+}
+
+export type QuizState =
+  | (QuizProgress & {
+      readonly active: false;
+      params: null;
+    })
+  | (QuizProgress & {
+      readonly active: true;
+      params: StartQuizParams;
+    });
+
+/** Events emitted by `QuizEngine`, with the data passed to listeners */
+export interface QuizEngineEvents {
+  mistake: StrokeData;
+  correctStroke: StrokeData;
+  complete: QuizSummary;
+  hint: { strokeNum: number };
+  reveal: { strokeNum: number };
+  skip: { strokeNum: number };
+  undo: { strokeNum: number };
+  strokeTimeout: { strokeNum: number };
+  quizTimeout: QuizSummary;
+  highlightComplete: undefined;
+}
+
+type QuizEngineListeners = {
+  [E in keyof QuizEngineEvents]?: Set<(data: QuizEngineEvents[E]) => void>;
+};
+
+export interface QuizCheckResult {
+  isCorrect: boolean;
+  strokeData: StrokeData;
+}
+
+// Bump this whenever the shape of `QuizSnapshot` changes
+const QUIZ_SNAPSHOT_VERSION = 1;
+
+/** How often time limits are checked (and the remaining times updated), in milliseconds */
+const TIMER_INTERVAL = 100;
+
+const getInitialQuizProgress = (startStrokeNum = 0) => {
+  const now = Date.now();
+  return {
+    index: startStrokeNum,
+    mistakes: {},
+    // Strokes before the start stroke count as already drawn
+    drawnStrokes: Array.from({ length: startStrokeNum }, (_, i) => i),
+    backwardsStrokes: 0,
+    orderViolations: 0,
+    hintsShown: 0,
+    skippedStrokes: [],
+    failedStrokes: [],
+    joinedStrokes: [],
+    strokeTimeouts: 0,
+    timedOut: false,
+    unfinishedStrokes: [],
+    freehandStrokes: [],
+    freehandResult: null,
+    revealedStrokes: 0,
+    reveal: null,
+    undos: 0,
+    restarts: 0,
+    startStrokeNum,
+    startTime: now,
+    strokeStartTime: now,
+    endTime: null,
+    strokeDeadline: null,
+    quizDeadline: null,
+    highlightKey: null,
+    strokeTimes: {},
+    userStrokes: [],
+    history: [],
+  };
+};
+
+/** The lowest stroke number that hasn't been drawn yet */
+const getNextStrokeNum = (strokeCount: number, drawnStrokes: number[]) => {
+  for (let i = 0; i < strokeCount; i++) {
+    if (!drawnStrokes.includes(i)) {
+      return i;
+    }
+  }
+  return strokeCount;
+};
+
+const getDrawnPath = (
+  points: Point[],
+  externalPoints: Point[]
+): StrokeData['drawnPath'] => ({
+  pathString: getPathString(externalPoints),
+  internalPathString: getPathString(points),
+  points,
+  externalPoints,
+});
+
+const sumMistakes = (mistakes: Record<number, number>) =>
+  Object.values(mistakes).reduce((total, count) => total + count, 0);
+
+/** Resolves the `exam` option, or returns null if the quiz isn't an exam */
+export const getExamOptions = (params: StartQuizParams | null) => {
+  if (!params?.exam) {
+    return null;
+  }
+  const { hideOutline = false, passingScore = 60 } =
+    params.exam === true ? {} : params.exam;
+  return { hideOutline, passingScore };
+};
+
+const getExamResult = (state: QuizState): ExamResult | null => {
+  const exam = getExamOptions(state.params);
+  if (!exam) {
+    return null;
+  }
+  // Strokes before the start stroke weren't part of the exam, and unfinished strokes score 0
+  const strokeScores = [
+    ...state.drawnStrokes.slice(state.startStrokeNum),
+    ...state.unfinishedStrokes,
+  ].map((strokeNum) => {
+    if (
+      state.failedStrokes.includes(strokeNum) ||
+      state.skippedStrokes.includes(strokeNum) ||
+      state.unfinishedStrokes.includes(strokeNum)
+    ) {
+      return 0;
+    }
+    const stroke = state.userStrokes.find(
+      (userStroke) => userStroke.isCorrect && userStroke.strokeNum === strokeNum
+    );
+    return 50 + 50 * (stroke?.score ?? 0);
+  });
+  const score = strokeScores.length
+    ? Math.round(
+        strokeScores.reduce((total, value) => total + value, 0) /
+          strokeScores.length
+      )
+    : 0;
+  return {
+    score,
+    passed: score >= exam.passingScore,
+    passingScore: exam.passingScore,
+  };
+};
+
+/** Resolves the `freehand` option, or returns null if the quiz isn't freehand */
+const getFreehandOptions = (params: StartQuizParams | null) => {
+  if (!params?.freehand) {
+    return null;
+  }
+  const { gradeOnStrokeCount = true } =
+    params.freehand === true ? {} : params.freehand;
+  return { gradeOnStrokeCount };
+};
+
+/** The current stroke's deadline, from `strokeTimeLimit`. Freehand quizzes don't time strokes */
+const getStrokeTimer = (params: StartQuizParams | null, now: number) => {
+  const limit = (!params?.freehand && params?.strokeTimeLimit) || null;
+  return { strokeDeadline: limit === null ? null : now + limit };
+};
+
+/** The quiz's deadline, from `quizTimeLimit` */
+const getQuizTimer = (params: StartQuizParams, startTime: number) => ({
+  quizDeadline: params.quizTimeLimit ? startTime + params.quizTimeLimit : null,
+});
+
+const getTimeRemaining = (
+  { strokeDeadline, quizDeadline }: QuizProgress,
+  now: number
+): QuizTimerState => ({
+  strokeTimeRemaining:
+    strokeDeadline === null ? null : Math.max(0, strokeDeadline - now),
+  quizTimeRemaining:
+    quizDeadline === null ? null : Math.max(0, quizDeadline - now),
+});
+
+export const getQuizSummary = (state: QuizState): QuizSummary => ({
+  character: state.character,
+  totalMistakes: sumMistakes(state.mistakes),
+  mistakesByStroke: state.mistakes,
+  backwardsStrokes: state.backwardsStrokes,
+  orderViolations: state.orderViolations,
+  hintsShown: state.hintsShown,
+  skippedStrokes: state.skippedStrokes,
+  failedStrokes: state.failedStrokes,
+  joinedStrokes: state.joinedStrokes,
+  freehand: state.freehandResult,
+  exam: getExamResult(state),
+  strokeTimeouts: state.strokeTimeouts,
+  timedOut: state.timedOut,
+  unfinishedStrokes: state.unfinishedStrokes,
+  revealedStrokes: state.revealedStrokes,
+  undos: state.undos,
+  restarts: state.restarts,
+  startStrokeNum: state.startStrokeNum,
+  elapsedTime: (state.endTime ?? Date.now()) - state.startTime,
+  strokeTimes: state.strokeTimes,
+  userStrokes: state.userStrokes,
+});
+
+/** The store holding a quiz's state. Also used by the hook before the character has loaded */
+export const createQuizStore = (character: string) => {
+  const api = createStoreApi<QuizState>({
+    character,
+    active: false,
+    params: null,
+    ...getInitialQuizProgress(),
+  });
+
+  return {
+    ...api,
+    next() {
+      const { index, drawnStrokes } = api.getState();
+      api.setState({
+        index: index + 1,
+        drawnStrokes: drawnStrokes.includes(index)
+          ? drawnStrokes
+          : [...drawnStrokes, index],
+      });
+    },
+  };
+};
+
+/** The store holding the time left on a quiz's time limits */
+export const createQuizTimerStore = () =>
+  createStoreApi<QuizTimerState>({
+    strokeTimeRemaining: null,
+    quizTimeRemaining: null,
+  });
+
+/**
+ * Grades strokes drawn for a character and keeps track of the quiz's progress, without any UI.
+ * Runs anywhere (e.g. in Node to validate submitted handwriting); `useHanziWriter` uses it for its quiz.
+ *
+ * @example
+ * const engine = new QuizEngine(character, new Positioner({ width: 300, height: 300, padding: 0 }));
+ * engine.on('complete', (summary) => console.log(summary.totalMistakes));
+ * engine.start();
+ * strokes.forEach((points) => engine.check(points));
+ */
+export class QuizEngine {
+  readonly character: Character;
+  /** Converts drawn points to character coordinates. Can be replaced, e.g. when the writer is resized */
+  positioner: Positioner;
+  readonly store: ReturnType<typeof createQuizStore>;
+  /** Time left on the time limits, updated every `TIMER_INTERVAL` */
+  readonly timerStore = createQuizTimerStore();
+  private options: StartQuizParams;
+  private listeners: QuizEngineListeners = {};
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private highlightTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    character: Character,
+    positioner: Positioner,
+    /** Defaults for `start()` */
+    options: StartQuizParams = {}
+  ) {
+    this.character = character;
+    this.positioner = positioner;
+    this.options = options;
+    this.store = createQuizStore(character.symbol);
+
+    // Resets the remaining times whenever a deadline changes (e.g. on the next stroke), between ticks
+    let { strokeDeadline, quizDeadline } = this.store.getState();
+    this.store.subscribe(() => {
+      const state = this.store.getState();
+      if (
+        state.strokeDeadline !== strokeDeadline ||
+        state.quizDeadline !== quizDeadline
+      ) {
+        ({ strokeDeadline, quizDeadline } = state);
+        this.timerStore.setState(getTimeRemaining(state, Date.now()));
+      }
+    });
+  }
+
+  getState() {
+    return this.store.getState();
+  }
+
+  /** Listens for state changes. Returns a function to unsubscribe */
+  subscribe(listener: () => void) {
+    return this.store.subscribe(listener);
+  }
+
+  /** Listens for an event. Returns a function to unsubscribe */
+  on<E extends keyof QuizEngineEvents>(
+    event: E,
+    listener: (data: QuizEngineEvents[E]) => void
+  ) {
+    let listeners: Set<(data: QuizEngineEvents[E]) => void> | undefined =
+      this.listeners[event];
+    if (!listeners) {
+      listeners = new Set();
+      // TypeScript can't match the set to the mapped type through the generic event
+      this.listeners[event] = listeners as never;
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private emit<E extends keyof QuizEngineEvents>(
+    event: E,
+    data: QuizEngineEvents[E]
+  ) {
+    const listeners: Set<(data: QuizEngineEvents[E]) => void> | undefined =
+      this.listeners[event];
+    listeners?.forEach((listener) => listener(data));
+  }
+
+  /** Starts (or restarts) the quiz. `params` are merged over the options the engine was created with */
+  start(params: StartQuizParams = {}) {
+    const options = { ...this.options, ...params };
+    // Start from an index between 0 and the number of strokes. Freehand quizzes are always for the whole character
+    const index = options.freehand
+      ? 0
+      : Math.max(
+          Math.min(
+            options.quizStartStrokeNum || 0,
+            this.character.strokes.length - 1
+          ),
+          0
+        );
+
+    const progress = getInitialQuizProgress(index);
+    this.clearHighlightTimer();
+    this.store.setState({
+      ...progress,
+      ...getStrokeTimer(options, progress.startTime),
+      ...getQuizTimer(options, progress.startTime),
+      active: true,
+      params: options,
+    });
+    this.startTimer();
+  }
+
+  stop() {
+    this.stopTimer();
+    this.clearHighlightTimer();
+    this.store.setState({
+      ...getInitialQuizProgress(),
+      active: false,
+      params: null,
+    });
+  }
+
+  /**
+   * Grades a drawn stroke against the expected stroke (or any remaining stroke in free stroke order).
+   * Points are in screen coordinates, and are converted with the positioner. Returns null if no quiz is active.
+   * In a freehand quiz, the stroke is only recorded (and graded later by `finish()`), so this also returns null.
+   */
+  check(externalPoints: Point[]): QuizCheckResult | null {
+    const state = this.store.getState();
+    if (!state.active || !externalPoints.length) {
+      return null;
+    }
+    const { character, positioner } = this;
+    const { index, mistakes, params } = state;
+    const now = Date.now();
+    const [firstExternalPoint, ...restExternalPoints] = externalPoints;
+    const firstPoint = positioner.convertExternalPoint(firstExternalPoint);
+    const userStroke = new UserStroke(index, firstPoint, firstExternalPoint);
+
+    for (const externalPoint of restExternalPoints) {
+      const offset = positioner.convertExternalPoint(externalPoint);
+      userStroke.appendPoint(offset, externalPoint);
+    }
+
+    const freehand = getFreehandOptions(params);
+    if (freehand) {
+      const freehandStrokes = [
+        ...state.freehandStrokes,
+        {
+          points: userStroke.points,
+          externalPoints: userStroke.externalPoints,
+          time: now - state.startTime,
+        },
+      ];
+      this.store.setState({ freehandStrokes });
+      if (
+        freehand.gradeOnStrokeCount &&
+        freehandStrokes.length >= character.strokes.length
+      ) {
+        this.finish();
+      }
+      return null;
+    }
+
+    const matchOptions = {
+      leniency: params.leniency || 1.2,
+      profile: params.gradingProfile,
+    };
+    // In free stroke order, match against every stroke that hasn't been drawn yet
+    const match =
+      params.strokeOrder === 'free'
+        ? matchAnyStroke(
+            userStroke,
+            character,
+            character.strokes
+              .map((stroke) => stroke.strokeNum)
+              .filter((num) => !state.drawnStrokes.includes(num)),
+            matchOptions
+          )
+        : {
+            ...strokeMatches(userStroke, character, index, matchOptions),
+            strokeNum: index,
+          };
+    const { isMatch, meta, grading } = match;
+    const strokeNum = match.strokeNum ?? index;
+
+    const isAccepted = !!(
+      isMatch ||
+      (meta.isStrokeBackwards && params.acceptBackwardsStrokes)
+    );
+
+    if (!isAccepted && (params.maxJoinedStrokes ?? 1) > 1) {
+      const segments = this.matchJoinedStrokes(userStroke, matchOptions);
+      if (segments) {
+        return this.acceptJoinedStrokes(userStroke, segments, now);
+      }
+    }
+
+    const isOutOfOrder = isAccepted && strokeNum !== index;
+
+    const drawnPath = getDrawnPath(
+      userStroke.points,
+      userStroke.externalPoints
+    );
+
+    const progress = {
+      backwardsStrokes:
+        state.backwardsStrokes + (meta.isStrokeBackwards ? 1 : 0),
+      userStrokes: [
+        ...state.userStrokes,
+        {
+          strokeNum: isAccepted ? strokeNum : index,
+          points: userStroke.points,
+          externalPoints: userStroke.externalPoints,
+          isCorrect: isAccepted,
+          isBackwards: meta.isStrokeBackwards,
+          isJoined: false,
+          score: grading?.score ?? null,
+          time: now - state.startTime,
+        },
+      ],
+    };
+
+    if (!isAccepted) {
+      const numMistakes = (mistakes[index] || 0) + 1;
+      const nextMistakes = { ...mistakes, [index]: numMistakes };
+      const isExam = !!getExamOptions(params);
+      // Exams don't wait for the stroke to be drawn correctly
+      const { strokesRemaining } = isExam
+        ? this.completeStroke(index, now, {
+            ...progress,
+            mistakes: nextMistakes,
+            failedStrokes: [...state.failedStrokes, index],
+          })
+        : {
+            strokesRemaining:
+              character.strokes.length - state.drawnStrokes.length,
+          };
+      if (!isExam) {
+        this.store.setState({ ...progress, mistakes: nextMistakes });
+      }
+      const strokeData: StrokeData = {
+        character: character.symbol,
+        drawnPath,
+        isBackwards: meta.isStrokeBackwards,
+        isOutOfOrder: false,
+        mistakesOnStroke: numMistakes,
+        grading,
+        strokeNum: index,
+        strokesRemaining,
+        totalMistakes: sumMistakes(nextMistakes),
+        joinedStrokes: null,
+      };
+      params.onMistake?.(strokeData);
+      this.emit('mistake', strokeData);
+      if (isExam) {
+        this.finishStroke(strokesRemaining);
+      }
+      return { isCorrect: false, strokeData };
+    }
+
+    const { strokesRemaining } = this.completeStroke(strokeNum, now, {
+      ...progress,
+      orderViolations: state.orderViolations + (isOutOfOrder ? 1 : 0),
+    });
+
+    const strokeData: StrokeData = {
+      character: character.symbol,
+      drawnPath,
+      isBackwards: meta.isStrokeBackwards,
+      isOutOfOrder,
+      mistakesOnStroke: mistakes[strokeNum] || 0,
+      grading,
+      strokeNum,
+      strokesRemaining,
+      totalMistakes: sumMistakes(mistakes),
+      joinedStrokes: null,
+    };
+    params.onCorrectStroke?.(strokeData);
+    this.emit('correctStroke', strokeData);
+
+    this.finishStroke(strokesRemaining);
+    return { isCorrect: true, strokeData };
+  }
+
+  /** Tries splitting the drawn stroke into the next strokes (up to `maxJoinedStrokes`), joined without lifting the finger */
+  private matchJoinedStrokes(
+    userStroke: UserStroke,
+    matchOptions: Parameters<typeof matchJoinedStrokes>[3]
+  ) {
+    const { index, drawnStrokes, params } = this.store.getState();
+    const maxJoinedStrokes = params?.maxJoinedStrokes ?? 1;
+    for (let count = 2; count <= maxJoinedStrokes; count++) {
+      const strokeNums = Array.from({ length: count }, (_, i) => index + i);
+      if (
+        strokeNums.some(
+          (num) =>
+            num >= this.character.strokes.length || drawnStrokes.includes(num)
+        )
+      ) {
+        break;
+      }
+      const segments = matchJoinedStrokes(
+        userStroke,
+        this.character,
+        strokeNums,
+        matchOptions
+      );
+      if (segments) {
+        return segments;
+      }
+    }
+    return null;
+  }
+
+  /** Accepts every stroke drawn in one gesture, calling `onCorrectStroke` for each */
+  private acceptJoinedStrokes(
+    userStroke: UserStroke,
+    segments: JoinedStrokeSegment[],
+    now: number
+  ): QuizCheckResult {
+    const state = this.store.getState();
+    const { mistakes, params } = state;
+    const joinedStrokes = segments.map((segment) => segment.strokeNum);
+    // The strokes are undone together
+    this.recordHistory();
+    const segmentStrokes = segments.map(
+      ({ strokeNum, start, end, grading }) => {
+        const points = userStroke.points.slice(start, end + 1);
+        const externalPoints = userStroke.externalPoints.slice(start, end + 1);
+        return { strokeNum, points, externalPoints, grading };
+      }
+    );
+    this.store.setState({
+      joinedStrokes: [...state.joinedStrokes, joinedStrokes],
+      userStrokes: [
+        ...state.userStrokes,
+        ...segmentStrokes.map(
+          ({ strokeNum, points, externalPoints, grading }) => ({
+            strokeNum,
+            points,
+            externalPoints,
+            isCorrect: true,
+            isBackwards: false,
+            isJoined: true,
+            score: grading.score,
+            time: now - state.startTime,
+          })
+        ),
+      ],
+    });
+
+    let result: QuizCheckResult | null = null;
+    let strokesRemaining = 0;
+    for (const segment of segmentStrokes) {
+      ({ strokesRemaining } = this.completeStroke(
+        segment.strokeNum,
+        now,
+        {},
+        false
+      ));
+      const strokeData: StrokeData = {
+        character: this.character.symbol,
+        drawnPath: getDrawnPath(segment.points, segment.externalPoints),
+        isBackwards: false,
+        isOutOfOrder: false,
+        mistakesOnStroke: mistakes[segment.strokeNum] || 0,
+        grading: segment.grading,
+        strokeNum: segment.strokeNum,
+        strokesRemaining,
+        totalMistakes: sumMistakes(mistakes),
+        joinedStrokes,
+      };
+      params?.onCorrectStroke?.(strokeData);
+      this.emit('correctStroke', strokeData);
+      result = { isCorrect: true, strokeData };
+    }
+
+    this.finishStroke(strokesRemaining);
+    return result!;
+  }
+
+  /** Saves the current progress, for `undo()` to go back to */
+  private recordHistory() {
+    const state = this.store.getState();
+    this.store.setState({
+      history: [
+        ...state.history,
+        {
+          index: state.index,
+          mistakes: state.mistakes,
+          backwardsStrokes: state.backwardsStrokes,
+          orderViolations: state.orderViolations,
+          strokeTimes: state.strokeTimes,
+          lengths: {
+            drawnStrokes: state.drawnStrokes.length,
+            skippedStrokes: state.skippedStrokes.length,
+            failedStrokes: state.failedStrokes.length,
+            joinedStrokes: state.joinedStrokes.length,
+            userStrokes: state.userStrokes.length,
+          },
+        },
+      ],
+    });
+  }
+
+  /** Marks a stroke as drawn, recording the progress before it in the history (unless `recordHistory` is false) */
+  private completeStroke(
+    strokeNum: number,
+    now: number,
+    progress: Partial<QuizProgress> = {},
+    recordHistory = true
+  ) {
+    if (recordHistory) {
+      this.recordHistory();
+    }
+    const state = this.store.getState();
+    const drawnStrokes = [...state.drawnStrokes, strokeNum];
+    const strokesRemaining =
+      this.character.strokes.length - drawnStrokes.length;
+
+    this.store.setState({
+      ...progress,
+      drawnStrokes,
+      strokeStartTime: now,
+      endTime: strokesRemaining > 0 ? null : now,
+      ...getStrokeTimer(state.params, now),
+      strokeTimes: {
+        ...state.strokeTimes,
+        [strokeNum]: now - state.strokeStartTime,
+      },
+    });
+    return { strokesRemaining };
+  }
+
+  /** Moves on to the next stroke, or completes the quiz (flashing the character if `highlight` is set) */
+  private finishStroke(strokesRemaining: number, highlight = true) {
+    const { params, drawnStrokes } = this.store.getState();
+    const active = strokesRemaining > 0;
+
+    if (!active) {
+      this.stopTimer();
+    }
+    // The summary is taken before the state is reset for the next stroke
+    const summary = active ? null : this.getSummary();
+    const highlightKey =
+      !active && highlight && params?.highlightOnComplete !== false
+        ? generateId()
+        : null;
+    this.store.setState({
+      index: active
+        ? getNextStrokeNum(this.character.strokes.length, drawnStrokes)
+        : 0,
+      active,
+      reveal: null,
+      highlightKey,
+    });
+    if (highlightKey) {
+      // End the flash even if nothing renders it (e.g. without `<HanziWriter.QuizStrokes>`)
+      this.clearHighlightTimer();
+      this.highlightTimer = setTimeout(
+        () => this.completeHighlight(highlightKey),
+        params?.highlightCompleteDuration ?? 800
+      );
+    }
+    // Completion callbacks see the finished state (e.g. whether the character is flashing), and can start another quiz
+    if (summary) {
+      params?.onComplete?.(summary);
+      this.emit('complete', summary);
+    }
+  }
+
+  /**
+   * Grades the strokes drawn in a freehand quiz and completes it, e.g. when the learner taps "done".
+   * Each stroke of the character is aligned to the drawn stroke that matches it best. Returns null if no freehand quiz is active.
+   */
+  finish(): FreehandResult | null {
+    const state = this.store.getState();
+    if (!state.active || !getFreehandOptions(state.params)) {
+      return null;
+    }
+    const { character } = this;
+    const { params } = state;
+    const result = alignStrokes(
+      state.freehandStrokes.map((stroke) => stroke.points),
+      character,
+      {
+        leniency: params.leniency || 1.2,
+        profile: params.gradingProfile,
+        acceptBackwardsStrokes: params.acceptBackwardsStrokes,
+      }
+    );
+    const isAccepted = (stroke: FreehandResult['strokes'][number]) =>
+      stroke.status === 'correct' ||
+      (stroke.status === 'backwards' && !!params.acceptBackwardsStrokes);
+    const failedStrokes = result.strokes
+      .filter((stroke) => !isAccepted(stroke))
+      .map((stroke) => stroke.strokeNum);
+
+    this.store.setState({
+      mistakes: Object.fromEntries(failedStrokes.map((num) => [num, 1])),
+      drawnStrokes: character.strokes.map((stroke) => stroke.strokeNum),
+      backwardsStrokes: result.strokes.filter(
+        (stroke) => stroke.status === 'backwards'
+      ).length,
+      orderViolations: result.strokes.filter((stroke) => stroke.isOutOfOrder)
+        .length,
+      failedStrokes: getExamOptions(params) ? failedStrokes : [],
+      userStrokes: state.freehandStrokes.map((userStroke, i) => {
+        const aligned = result.strokes.find(
+          (stroke) => stroke.userStroke === i
+        );
+        return {
+          ...userStroke,
+          // Extra strokes are recorded against the stroke expected at that point
+          strokeNum:
+            aligned?.strokeNum ?? Math.min(i, character.strokes.length - 1),
+          isCorrect: !!aligned && isAccepted(aligned),
+          isBackwards: aligned?.status === 'backwards',
+          isJoined: false,
+          score: aligned?.grading?.score ?? null,
+        };
+      }),
+      freehandResult: result,
+      endTime: Date.now(),
+    });
+    this.finishStroke(0, result.isCorrect);
+    return result;
+  }
+
+  /** Gives up on the current stroke, which is shown as drawn and recorded in `skippedStrokes`. Does nothing in freehand quizzes */
+  skipStroke() {
+    const state = this.store.getState();
+    if (!state.active || state.params.freehand) {
+      return;
+    }
+    const strokeNum = state.index;
+    const { strokesRemaining } = this.completeStroke(strokeNum, Date.now(), {
+      skippedStrokes: [...state.skippedStrokes, strokeNum],
+    });
+    this.emit('skip', { strokeNum });
+    this.finishStroke(strokesRemaining);
+  }
+
+  /** Plays the hint for the current stroke (with `<HanziWriter.QuizMistakeHighlighter>`), regardless of `showHintAfterMisses`. Does nothing in exam mode */
+  revealStroke() {
+    const state = this.store.getState();
+    if (
+      !state.active ||
+      getExamOptions(state.params) ||
+      state.params.freehand
+    ) {
+      return;
+    }
+    this.store.setState({
+      revealedStrokes: state.revealedStrokes + 1,
+      reveal: { strokeNum: state.index, key: generateId() },
+    });
+    this.emit('reveal', { strokeNum: state.index });
+  }
+
+  /**
+   * Steps back one accepted (or skipped or failed) stroke, so it has to be drawn again (in freehand quizzes, removes the last stroke drawn).
+   * The quiz goes back to how it was before the stroke was completed, and strokes drawn in one gesture are undone together. Returns false if there's nothing to undo
+   */
+  undo() {
+    const state = this.store.getState();
+    if (state.active && state.params.freehand) {
+      return this.undoFreehandStroke();
+    }
+    const entry = state.history[state.history.length - 1];
+    if (!state.active || !entry) {
+      return false;
+    }
+    const now = Date.now();
+    const { lengths } = entry;
+    const strokeNum = state.drawnStrokes[lengths.drawnStrokes];
+    this.store.setState({
+      index: entry.index,
+      mistakes: entry.mistakes,
+      drawnStrokes: state.drawnStrokes.slice(0, lengths.drawnStrokes),
+      backwardsStrokes: entry.backwardsStrokes,
+      orderViolations: entry.orderViolations,
+      skippedStrokes: state.skippedStrokes.slice(0, lengths.skippedStrokes),
+      failedStrokes: state.failedStrokes.slice(0, lengths.failedStrokes),
+      joinedStrokes: state.joinedStrokes.slice(0, lengths.joinedStrokes),
+      strokeTimes: entry.strokeTimes,
+      userStrokes: state.userStrokes.slice(0, lengths.userStrokes),
+      history: state.history.slice(0, -1),
+      strokeStartTime: now,
+      ...getStrokeTimer(state.params, now),
+      reveal: null,
+      undos: state.undos + 1,
+    });
+    this.emit('undo', { strokeNum });
+    return true;
+  }
+
+  /** Removes the last stroke drawn in a freehand quiz */
+  private undoFreehandStroke() {
+    const { freehandStrokes, undos } = this.store.getState();
+    if (!freehandStrokes.length) {
+      return false;
+    }
+    this.store.setState({
+      freehandStrokes: freehandStrokes.slice(0, -1),
+      undos: undos + 1,
+    });
+    this.emit('undo', { strokeNum: freehandStrokes.length - 1 });
+    return true;
+  }
+
+  /** Starts the current (or last) quiz over with the same options, counting it in `restarts` */
+  restart() {
+    const { params, restarts } = this.store.getState();
+    if (!params) {
+      console.warn("Can't restart quiz, no quiz has been started");
+      return;
+    }
+    this.start(params);
+    this.store.setState({ restarts: restarts + 1 });
+  }
+
+  /** Returns a summary of the current (or last completed) quiz so far */
+  getSummary() {
+    return getQuizSummary(this.store.getState());
+  }
+
+  /** Records that a hint was shown for the current stroke (called by `<HanziWriter.QuizMistakeHighlighter>`) */
+  recordHint() {
+    const { hintsShown, index } = this.store.getState();
+    this.store.setState({ hintsShown: hintsShown + 1 });
+    this.emit('hint', { strokeNum: index });
+  }
+
+  /** Ends the completion flash (called by `<HanziWriter.QuizStrokes>`, or once `highlightCompleteDuration` has passed). Flashes from a previous quiz are ignored */
+  completeHighlight(highlightKey: string) {
+    const state = this.store.getState();
+    if (state.highlightKey !== highlightKey) {
+      return;
+    }
+    this.clearHighlightTimer();
+    this.store.setState({ highlightKey: null });
+    state.params?.onHighlightComplete?.();
+    this.emit('highlightComplete', undefined);
+  }
+
+  /** Returns the state of the active quiz as a JSON-serializable snapshot (callbacks are left out), or null if no quiz is active */
+  serialize(): QuizSnapshot | null {
+    const state = this.store.getState();
+    if (!state.active) {
+      return null;
+    }
+    const now = Date.now();
+    return {
+      version: QUIZ_SNAPSHOT_VERSION,
+      character: state.character,
+      index: state.index,
+      mistakes: state.mistakes,
+      drawnStrokes: state.drawnStrokes,
+      backwardsStrokes: state.backwardsStrokes,
+      orderViolations: state.orderViolations,
+      hintsShown: state.hintsShown,
+      skippedStrokes: state.skippedStrokes,
+      failedStrokes: state.failedStrokes,
+      joinedStrokes: state.joinedStrokes,
+      freehandStrokes: state.freehandStrokes,
+      strokeTimeouts: state.strokeTimeouts,
+      revealedStrokes: state.revealedStrokes,
+      undos: state.undos,
+      restarts: state.restarts,
+      startStrokeNum: state.startStrokeNum,
+      elapsedTime: now - state.startTime,
+      strokeElapsedTime: now - state.strokeStartTime,
+      strokeTimeRemaining:
+        state.strokeDeadline === null
+          ? null
+          : Math.max(0, state.strokeDeadline - now),
+      strokeTimes: state.strokeTimes,
+      userStrokes: state.userStrokes,
+      history: state.history,
+      options: Object.fromEntries(
+        Object.entries(state.params).filter(
+          ([, value]) => typeof value !== 'function'
+        )
+      ),
+    };
+  }
+
+  /**
+   * Resumes a quiz from a snapshot created by `serialize()`. Callbacks aren't part of the snapshot, so pass them in `params`.
+   * Returns false if the snapshot can't be restored (e.g. it's for a different character).
+   */
+  restore(snapshot: QuizSnapshot, params: StartQuizParams = {}) {
+    const { character } = this;
+    if (snapshot.version !== QUIZ_SNAPSHOT_VERSION) {
+      console.warn(
+        `Can't restore quiz, unsupported snapshot version ${snapshot.version}`
+      );
+      return false;
+    }
+    const strokeCount = character.strokes.length;
+    if (
+      snapshot.character !== character.symbol ||
+      snapshot.index < 0 ||
+      snapshot.index >= strokeCount ||
+      snapshot.drawnStrokes.some((num) => num < 0 || num >= strokeCount)
+    ) {
+      console.warn(
+        `Can't restore quiz, snapshot doesn't match character "${character.symbol}"`
+      );
+      return false;
+    }
+
+    const now = Date.now();
+    const options = { ...this.options, ...snapshot.options, ...params };
+    const startTime = now - snapshot.elapsedTime;
+    const strokeTimer = getStrokeTimer(options, now);
+    this.clearHighlightTimer();
+    this.store.setState({
+      ...getInitialQuizProgress(),
+      index: snapshot.index,
+      mistakes: snapshot.mistakes,
+      drawnStrokes: snapshot.drawnStrokes,
+      backwardsStrokes: snapshot.backwardsStrokes,
+      orderViolations: snapshot.orderViolations,
+      hintsShown: snapshot.hintsShown,
+      skippedStrokes: snapshot.skippedStrokes,
+      failedStrokes: snapshot.failedStrokes,
+      joinedStrokes: snapshot.joinedStrokes,
+      freehandStrokes: snapshot.freehandStrokes,
+      strokeTimeouts: snapshot.strokeTimeouts,
+      revealedStrokes: snapshot.revealedStrokes,
+      undos: snapshot.undos,
+      restarts: snapshot.restarts,
+      startStrokeNum: snapshot.startStrokeNum,
+      startTime,
+      strokeStartTime: now - snapshot.strokeElapsedTime,
+      // Time spent on the current stroke (e.g. before a timeout) isn't given back
+      ...(strokeTimer.strokeDeadline !== null &&
+      snapshot.strokeTimeRemaining !== null
+        ? { strokeDeadline: now + snapshot.strokeTimeRemaining }
+        : strokeTimer),
+      ...getQuizTimer(options, startTime),
+      strokeTimes: snapshot.strokeTimes,
+      userStrokes: snapshot.userStrokes,
+      history: snapshot.history,
+      active: true,
+      params: options,
+    });
+    this.startTimer();
+    return true;
+  }
+
+  /** Checks the time limits every `TIMER_INTERVAL`, if the quiz has any */
+  private startTimer() {
+    this.stopTimer();
+    const { params } = this.store.getState();
+    if (!params?.strokeTimeLimit && !params?.quizTimeLimit) {
+      return;
+    }
+    this.timer = setInterval(() => this.tick(), TIMER_INTERVAL);
+  }
+
+  private clearHighlightTimer() {
+    if (this.highlightTimer !== null) {
+      clearTimeout(this.highlightTimer);
+      this.highlightTimer = null;
+    }
+  }
+
+  private stopTimer() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private tick() {
+    const state = this.store.getState();
+    if (!state.active) {
+      this.stopTimer();
+      return;
+    }
+    const now = Date.now();
+    const timeRemaining = getTimeRemaining(state, now);
+    this.timerStore.setState(timeRemaining);
+    const { strokeTimeRemaining, quizTimeRemaining } = timeRemaining;
+
+    if (quizTimeRemaining === 0) {
+      this.timeoutQuiz(now);
+    } else if (strokeTimeRemaining === 0) {
+      this.timeoutStroke(now);
+    }
+  }
+
+  /** Applies the `strokeTimeoutAction` when the current stroke runs out of time */
+  private timeoutStroke(now: number) {
+    const state = this.store.getState();
+    if (!state.active) {
+      return;
+    }
+    const { index, params, mistakes } = state;
+    const action = params.strokeTimeoutAction ?? 'mistake';
+    this.store.setState({ strokeTimeouts: state.strokeTimeouts + 1 });
+    params.onStrokeTimeout?.({ strokeNum: index });
+    this.emit('strokeTimeout', { strokeNum: index });
+
+    if (action === 'end') {
+      this.timeoutQuiz(now);
+      return;
+    }
+    if (action === 'reveal') {
+      this.revealStroke();
+    } else {
+      const nextMistakes = { ...mistakes, [index]: (mistakes[index] || 0) + 1 };
+      // Like a wrong stroke, exams move on to the next stroke
+      if (getExamOptions(params)) {
+        const { strokesRemaining } = this.completeStroke(index, now, {
+          mistakes: nextMistakes,
+          failedStrokes: [...state.failedStrokes, index],
+        });
+        this.finishStroke(strokesRemaining);
+        return;
+      }
+      this.store.setState({ mistakes: nextMistakes });
+    }
+    // Give the stroke another go
+    this.store.setState(getStrokeTimer(params, now));
+  }
+
+  /**
+   * Ends the quiz, recording the strokes that weren't drawn in `unfinishedStrokes`.
+   * Freehand quizzes are then graded as they are, completing with the results
+   */
+  private timeoutQuiz(now: number) {
+    this.stopTimer();
+    const state = this.store.getState();
+    if (!state.active) {
+      return;
+    }
+    const { params } = state;
+    this.store.setState({
+      timedOut: true,
+      // Freehand strokes aren't matched to the character's strokes until they're graded
+      unfinishedStrokes: params.freehand
+        ? []
+        : this.character.strokes
+            .map((stroke) => stroke.strokeNum)
+            .filter((strokeNum) => !state.drawnStrokes.includes(strokeNum)),
+      endTime: now,
+    });
+    const summary = this.getSummary();
+    params.onQuizTimeout?.(summary);
+    this.emit('quizTimeout', summary);
+    if (params.freehand) {
+      this.finish();
+      return;
+    }
+    this.store.setState({ active: false, reveal: null });
+  }
+}
@@ -0,0 +1,17 @@
+export function createStoreApi<T>(initialState: T) {
+  let state = initialState;
+  const subscribers = new Set<() => void>();
+  return {
+    subscribe: (listener: () => void) => {
+      subscribers.add(listener);
+      return () => {
+        subscribers.delete(listener);
+      };
+    },
+    getState: () => state,
+    setState(newState: Partial<T>) {
+      state = { ...state, ...newState };
+      subscribers.forEach((listener) => listener());
+    },
+  };
+}
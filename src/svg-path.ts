@@ -0,0 +1,180 @@
+import type { Point } from './types';
+
+const TOKEN_REGEX =
+  /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+/** Number of arguments each command takes */
+const COMMAND_ARGS: Record<string, number> = {
+  M: 2,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  A: 7,
+  Z: 0,
+};
+
+const cubicPoint = (p0: Point, p1: Point, p2: Point, p3: Point, t: number) => {
+  const mt = 1 - t;
+  return {
+    x:
+      mt * mt * mt * p0.x +
+      3 * mt * mt * t * p1.x +
+      3 * mt * t * t * p2.x +
+      t * t * t * p3.x,
+    y:
+      mt * mt * mt * p0.y +
+      3 * mt * mt * t * p1.y +
+      3 * mt * t * t * p2.y +
+      t * t * t * p3.y,
+  };
+};
+
+/**
+ * Converts an SVG path string into a list of polylines (one per subpath), approximating curves with `curveSteps` segments.
+ * Arcs are approximated by a straight line to their end point.
+ */
+export function samplePath(d: string, curveSteps = 8): Point[][] {
+  const tokens = d.match(TOKEN_REGEX) || [];
+  const subpaths: Point[][] = [];
+  let current: Point[] = [];
+  let position: Point = { x: 0, y: 0 };
+  let subpathStart: Point = position;
+  // The last control point, used to reflect smooth curve commands
+  let lastControl: Point | null = null;
+  let lastCommand = '';
+  let command = '';
+  let i = 0;
+
+  const nextNumber = () => parseFloat(tokens[i++]);
+  const sampleCubic = (p1: Point, p2: Point, p3: Point) => {
+    const p0 = position;
+    for (let step = 1; step <= curveSteps; step++) {
+      current.push(cubicPoint(p0, p1, p2, p3, step / curveSteps));
+    }
+  };
+
+  while (i < tokens.length) {
+    if (/[a-z]/i.test(tokens[i])) {
+      command = tokens[i++];
+    } else if (!command) {
+      // Malformed path, skip the token
+      i++;
+      continue;
+    }
+    const upper = command.toUpperCase();
+    const isRelative = command !== upper;
+    const base = isRelative ? position : { x: 0, y: 0 };
+    const readPoint = () => {
+      const x = nextNumber();
+      const y = nextNumber();
+      return { x: base.x + x, y: base.y + y };
+    };
+
+    if (i + COMMAND_ARGS[upper] > tokens.length) {
+      break;
+    }
+
+    let control: Point | null = null;
+    switch (upper) {
+      case 'M': {
+        if (current.length > 1) {
+          subpaths.push(current);
+        }
+        position = readPoint();
+        subpathStart = position;
+        current = [position];
+        // Subsequent coordinate pairs are implicit line-tos
+        command = isRelative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+        position = readPoint();
+        current.push(position);
+        break;
+      case 'H':
+        position = { x: base.x + nextNumber(), y: position.y };
+        current.push(position);
+        break;
+      case 'V':
+        position = { x: position.x, y: base.y + nextNumber() };
+        current.push(position);
+        break;
+      case 'C': {
+        const p1 = readPoint();
+        const p2 = readPoint();
+        const p3 = readPoint();
+        sampleCubic(p1, p2, p3);
+        control = p2;
+        position = p3;
+        break;
+      }
+      case 'S': {
+        const p1 =
+          lastControl && /[CS]/i.test(lastCommand)
+            ? {
+                x: 2 * position.x - lastControl.x,
+                y: 2 * position.y - lastControl.y,
+              }
+            : position;
+        const p2 = readPoint();
+        const p3 = readPoint();
+        sampleCubic(p1, p2, p3);
+        control = p2;
+        position = p3;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const q1: Point =
+          upper === 'Q'
+            ? readPoint()
+            : lastControl && /[QT]/i.test(lastCommand)
+            ? {
+                x: 2 * position.x - lastControl.x,
+                y: 2 * position.y - lastControl.y,
+              }
+            : position;
+        const p3 = readPoint();
+        // Elevate the quadratic curve to a cubic one
+        const p1 = {
+          x: position.x + (2 / 3) * (q1.x - position.x),
+          y: position.y + (2 / 3) * (q1.y - position.y),
+        };
+        const p2 = {
+          x: p3.x + (2 / 3) * (q1.x - p3.x),
+          y: p3.y + (2 / 3) * (q1.y - p3.y),
+        };
+        sampleCubic(p1, p2, p3);
+        control = q1;
+        position = p3;
+        break;
+      }
+      case 'A': {
+        i += 5;
+        position = readPoint();
+        current.push(position);
+        break;
+      }
+      case 'Z':
+        position = subpathStart;
+        current.push(position);
+        // Z takes no arguments, so it can't repeat implicitly
+        command = '';
+        break;
+      default:
+        // Unknown command
+        i++;
+    }
+    lastControl = control;
+    lastCommand = upper;
+  }
+
+  if (current.length > 1) {
+    subpaths.push(current);
+  }
+  return subpaths;
+}
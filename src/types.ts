@@ -10,35 +10,318 @@ export type QuizOptions = {
   leniency: number;
   /** Highlights the correct stroke after a set number of incorrect attempts. Setting `false` disables entirely. Default: 3 */
   showHintAfterMisses: number | false;
-  /** After a quiz is completed successfully, the character will flash briefly. Default: true */
+  /** After a quiz is completed successfully, the character will flash briefly (uses `<HanziWriter.QuizStrokes>`). Default: true */
   highlightOnComplete: boolean;
+  /** Colour the character flashes in when the quiz is completed. Default: '#AAF' */
+  highlightCompleteColor: string;
+  /** Duration of the completion flash, in milliseconds. Default: 800 */
+  highlightCompleteDuration: number;
   /** Whether to treat strokes which are correct besides their direction as correct. */
   acceptBackwardsStrokes: boolean;
+  /** A built-in grading profile, or thresholds overriding the `'standard'` profile. Default: 'standard' */
+  gradingProfile: GradingProfileName | Partial<GradingProfile>;
+  /** Grades the quiz as an exam: no hints, wrong strokes count as failed and the quiz moves on, and the summary includes a 0–100 score. Default: false */
+  exam: boolean | ExamOptions;
+  /** Milliseconds allowed to draw each stroke. Default: no limit */
+  strokeTimeLimit: number | null;
+  /** What happens when a stroke runs out of time: `'mistake'` counts a mistake on the stroke (failing it in exam mode), `'reveal'` plays its hint and `'end'` ends the quiz. The stroke's timer then starts again. Default: 'mistake' */
+  strokeTimeoutAction: 'mistake' | 'reveal' | 'end';
+  /** Milliseconds allowed to complete the whole quiz. The quiz ends when it runs out. Default: no limit */
+  quizTimeLimit: number | null;
+  /**
+   * Lets the learner write the whole character without feedback, grading every stroke at the end (with `quiz.finish()`, or when the expected number of strokes has been drawn).
+   * Results are in the summary's `freehand`. `quizStartStrokeNum` is ignored. Default: false
+   */
+  freehand: boolean | FreehandOptions;
+  /**
+   * Maximum number of consecutive strokes that can be drawn in one gesture without lifting the finger (e.g. the last two strokes of 口).
+   * Joined strokes are accepted together, and reported in `StrokeData.joinedStrokes`. Default: 1 (strokes can't be joined)
+   */
+  maxJoinedStrokes: number;
   /** Begin quiz on this stroke number rather than stroke 0 */
   quizStartStrokeNum: number;
+  /**
+   * `'free'` accepts strokes in any order, matching each drawn stroke against every stroke not yet drawn.
+   * Strokes drawn out of order are counted in `orderViolations` rather than as mistakes. Default: 'strict'
+   */
+  strokeOrder: 'strict' | 'free';
   onMistake?: (strokeData: StrokeData) => void;
   onCorrectStroke?: (strokeData: StrokeData) => void;
   /** Callback when the quiz completes */
-  onComplete?: (summary: { character: string; totalMistakes: number }) => void;
+  onComplete?: (summary: QuizSummary) => void;
+  /** Callback when the current stroke runs out of time, before the `strokeTimeoutAction` is applied */
+  onStrokeTimeout?: (data: { strokeNum: number }) => void;
+  /** Callback when the quiz is ended by a time limit. `onComplete` isn't called, except for freehand quizzes, which are graded as they are */
+  onQuizTimeout?: (summary: QuizSummary) => void;
+  /** Callback when the completion flash finishes */
+  onHighlightComplete?: () => void;
+};
+
+export type ExamOptions = {
+  /** Hides `<HanziWriter.Outline>` during the exam. Default: false */
+  hideOutline?: boolean;
+  /** Minimum score (0–100) to pass. Default: 60 */
+  passingScore?: number;
+};
+
+export type FreehandOptions = {
+  /** Grades the character as soon as the expected number of strokes has been drawn. If false, call `quiz.finish()`. Default: true */
+  gradeOnStrokeCount?: boolean;
+};
+
+/** How a stroke of the character was written in a freehand quiz */
+export type FreehandStrokeResult = {
+  strokeNum: number;
+  /** `'incorrect'` strokes were attempted (roughly in the right place) but didn't match, and `'missing'` strokes weren't attempted */
+  status: 'correct' | 'backwards' | 'incorrect' | 'missing';
+  /** Index of the drawn stroke aligned to this stroke, or null if it's missing */
+  userStroke: number | null;
+  /** Whether the stroke was drawn before an earlier stroke */
+  isOutOfOrder: boolean;
+  /** How the aligned drawn stroke compared to the stroke, or null if it's missing */
+  grading: StrokeGrading | null;
+};
+
+export type FreehandResult = {
+  /** Results for every stroke of the character, in stroke order */
+  strokes: FreehandStrokeResult[];
+  /** Indexes of drawn strokes that weren't aligned to any stroke */
+  extraStrokes: number[];
+  /** Whether every stroke was correct (or backwards, with `acceptBackwardsStrokes`) and in order, without extra strokes */
+  isCorrect: boolean;
+};
+
+export type ExamResult = {
+  /** From 0 to 100. Failed and skipped strokes score 0, and accepted strokes score 50–100 depending on how well they matched */
+  score: number;
+  passed: boolean;
+  passingScore: number;
+};
+
+/** A stroke drawn by the user during a quiz */
+export type QuizUserStroke = {
+  /** The stroke that was matched, or the stroke that was expected if the stroke was a mistake */
+  strokeNum: number;
+  /** Points of the drawn stroke, in internal character coordinates */
+  points: Point[];
+  /** Points of the drawn stroke, in screen coordinates */
+  externalPoints: Point[];
+  isCorrect: boolean;
+  isBackwards: boolean;
+  /** Whether the stroke was drawn joined to other strokes. Its points are the part of the gesture matched to the stroke */
+  isJoined: boolean;
+  /** Overall grading score (see `StrokeGrading`), or null if the stroke was too short to grade */
+  score: number | null;
+  /** Milliseconds since the quiz started */
+  time: number;
+};
+
+export type QuizSummary = {
+  character: string;
+  /** Sum of the mistakes made on every stroke */
+  totalMistakes: number;
+  /** Number of mistakes, keyed by stroke number. Strokes without mistakes are omitted */
+  mistakesByStroke: Record<number, number>;
+  /** Number of strokes drawn backwards, whether or not they were accepted */
+  backwardsStrokes: number;
+  /** Number of strokes accepted before an earlier stroke was drawn (only in `'free'` stroke order) */
+  orderViolations: number;
+  /** Number of hints shown by `<HanziWriter.QuizMistakeHighlighter>` */
+  hintsShown: number;
+  /** Strokes given up on with `quiz.skipStroke()` */
+  skippedStrokes: number[];
+  /** Strokes that were drawn wrong in exam mode */
+  failedStrokes: number[];
+  /** Groups of consecutive strokes drawn in one gesture (see `maxJoinedStrokes`) */
+  joinedStrokes: number[][];
+  /** Results of a freehand quiz, or null if the quiz wasn't freehand */
+  freehand: FreehandResult | null;
+  /** The exam score, or null if the quiz wasn't an exam */
+  exam: ExamResult | null;
+  /** Number of times a stroke ran out of time */
+  strokeTimeouts: number;
+  /** Whether the quiz was ended by a time limit */
+  timedOut: boolean;
+  /** Strokes that weren't drawn before the quiz timed out */
+  unfinishedStrokes: number[];
+  /** Number of times `quiz.revealStroke()` was called */
+  revealedStrokes: number;
+  /** Number of strokes stepped back with `quiz.undo()` */
+  undos: number;
+  /** Number of times the quiz was restarted with `quiz.restart()` */
+  restarts: number;
+  /** The stroke the quiz started on */
+  startStrokeNum: number;
+  /** Time taken to complete the quiz, in milliseconds */
+  elapsedTime: number;
+  /** Time taken on each stroke (from the previous stroke being accepted), in milliseconds, keyed by stroke number */
+  strokeTimes: Record<number, number>;
+  /** Every stroke drawn, in order, including mistakes */
+  userStrokes: QuizUserStroke[];
+};
+
+/** Thresholds used to grade strokes. Every threshold is scaled by the quiz's `leniency` */
+export type GradingProfile = {
+  /** Maximum average distance from the drawn points to the stroke. Bigger = more lenient. Default: 350 */
+  avgDistThreshold: number;
+  /** Maximum distance between the drawn and expected start and end points. Bigger = more lenient. Default: 250 */
+  startAndEndDistThreshold: number;
+  /** Maximum Fréchet distance between the normalized shapes. Bigger = more lenient. Default: 0.4 */
+  frechetThreshold: number;
+  /** Minimum drawn length relative to the stroke's length. Smaller = more lenient. Default: 0.35 */
+  minLenThreshold: number;
+  /** Minimum average cosine similarity to the stroke's direction, from -1 to 0.99 (higher values are clamped). Smaller = more lenient. Not scaled by leniency. Default: 0 */
+  cosineSimilarityThreshold: number;
+  /** Rotations (in radians) tried when fitting the shape. Default: ±π/16, ±π/32 and 0 */
+  shapeFitRotations: number[];
+};
+
+export type GradingProfileName = 'child' | 'beginner' | 'standard' | 'exam';
+
+/** The result of one stroke grading check */
+export type GradingCriterion = {
+  /** The measured value */
+  value: number;
+  /** The value the check is compared against, after leniency is applied */
+  threshold: number;
+  passed: boolean;
+  /** From 0 to 1, where 1 is a perfect value and 0.5 is the threshold */
+  score: number;
+};
+
+/** How a drawn stroke compares to a character stroke, check by check. Distances are in internal character coordinates (y points up) */
+export type StrokeGrading = {
+  /** Average distance from the drawn points to the stroke */
+  averageDistance: GradingCriterion;
+  /** Distance from the stroke's start. `offset` is the drawn start relative to the stroke's start */
+  startDistance: GradingCriterion & { offset: Point };
+  /** Distance from the stroke's end. `offset` is the drawn end relative to the stroke's end */
+  endDistance: GradingCriterion & { offset: Point };
+  /** Average cosine similarity between the drawn segments and the stroke's direction, from -1 to 1 */
+  direction: GradingCriterion;
+  /** Fréchet distance between the normalized shapes, allowing slight rotations */
+  shape: GradingCriterion;
+  /** Drawn length relative to the stroke's length */
+  length: GradingCriterion;
+  /** Average of the criteria scores, from 0 to 1 */
+  score: number;
 };
 
 export type StrokeData = {
   character: string;
   drawnPath: {
+    /** SVG path of the drawn stroke, in screen coordinates */
     pathString: string;
+    /** SVG path of the drawn stroke, in internal character coordinates */
+    internalPathString: string;
+    /** Points of the drawn stroke, in internal character coordinates */
     points: Point[];
+    /** Points of the drawn stroke, in screen coordinates */
+    externalPoints: Point[];
   };
   isBackwards: boolean;
+  /** Whether the stroke was accepted before an earlier stroke was drawn (only in `'free'` stroke order) */
+  isOutOfOrder: boolean;
   strokeNum: number;
   mistakesOnStroke: number;
+  /** How the drawn stroke compared to the graded stroke, or null if it was too short to grade */
+  grading: StrokeGrading | null;
+  /** Sum of the mistakes made on every stroke so far, including this one */
   totalMistakes: number;
   strokesRemaining: number;
+  /** The strokes drawn together in one gesture with this one, including this one, or null if it wasn't joined */
+  joinedStrokes: number[] | null;
+};
+
+/** Quiz options, without callbacks */
+export type SerializableQuizOptions = {
+  [K in keyof QuizOptions as NonNullable<QuizOptions[K]> extends (
+    ...args: any[]
+  ) => any
+    ? never
+    : K]?: QuizOptions[K];
+};
+
+/**
+ * Progress from before a stroke (or strokes drawn in one gesture) was completed, which `quiz.undo()` goes back to.
+ * Strokes are only ever appended to the lists, so only their lengths are kept.
+ */
+export type QuizHistoryEntry = {
+  index: number;
+  mistakes: Record<number, number>;
+  backwardsStrokes: number;
+  orderViolations: number;
+  strokeTimes: Record<number, number>;
+  lengths: {
+    drawnStrokes: number;
+    skippedStrokes: number;
+    failedStrokes: number;
+    joinedStrokes: number;
+    userStrokes: number;
+  };
+};
+
+/** JSON-serializable state of an active quiz, from `quiz.serialize()` */
+export type QuizSnapshot = {
+  version: 1;
+  character: string;
+  /** The stroke that is expected next */
+  index: number;
+  mistakes: Record<number, number>;
+  /** Accepted strokes, in the order they were drawn */
+  drawnStrokes: number[];
+  backwardsStrokes: number;
+  orderViolations: number;
+  hintsShown: number;
+  skippedStrokes: number[];
+  failedStrokes: number[];
+  joinedStrokes: number[][];
+  strokeTimeouts: number;
+  revealedStrokes: number;
+  undos: number;
+  restarts: number;
+  startStrokeNum: number;
+  /** Time spent on the quiz, in milliseconds */
+  elapsedTime: number;
+  /** Time spent on the current stroke, in milliseconds */
+  strokeElapsedTime: number;
+  /** Strokes drawn so far in a freehand quiz */
+  freehandStrokes: Pick<QuizUserStroke, 'points' | 'externalPoints' | 'time'>[];
+  /** Time left to draw the current stroke, in milliseconds, or null without a stroke time limit */
+  strokeTimeRemaining: number | null;
+  strokeTimes: Record<number, number>;
+  userStrokes: QuizUserStroke[];
+  /** What `quiz.undo()` goes back to, one entry per completed stroke */
+  history: QuizHistoryEntry[];
+  options: SerializableQuizOptions;
+};
+
+/** Aggregate results of a word quiz (see `useWordWriter`) */
+export type WordQuizSummary = {
+  word: string;
+  /** Sum of the mistakes made on every character */
+  totalMistakes: number;
+  backwardsStrokes: number;
+  orderViolations: number;
+  hintsShown: number;
+  /** Time taken to complete the whole word, in milliseconds */
+  elapsedTime: number;
+  /** Whether a character ran out of time, ending the quiz. `characters` then ends with that character's summary */
+  timedOut: boolean;
+  /** Summary of each completed character, in order */
+  characters: QuizSummary[];
 };
 
 export type CharacterJson = {
   strokes: string[];
   medians: number[][][];
   radStrokes?: number[];
+  /** The radical, e.g. `女` for 好 */
+  radical?: string;
+  /** Ideographic Description Sequence, e.g. `⿰女子` for 好 */
+  decomposition?: string;
+  /** For each stroke, the path to the component in `decomposition` it belongs to (e.g. `[0]` for 女 in `⿰女子`), or null */
+  matches?: (number[] | null)[];
 };
 
 export type PositionerOptions = {
@@ -1,4 +1,16 @@
+import type { Positioner } from './hanzi-writer';
+
 export function generateId() {
   // Simple equivalent to shortid.generate()
   return Math.random().toString(36).substring(2, 9);
 }
+
+/** SVG transform mapping internal character coordinates to screen coordinates */
+export function getPositionerTransform(p: Positioner) {
+  // map: x_e = internal_x * scale + xOffset
+  //      y_e = height - yOffset - internal_y * scale
+  // which is equivalent to: translate(xOffset, height - yOffset) scale(scale, -scale)
+  return `translate(${p.xOffset}, ${p.height - p.yOffset}) scale(${
+    p.scale
+  }, ${-p.scale})`;
+}